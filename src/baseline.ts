@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+import { existsSync, writeFileSync } from 'fs';
+import nodePath from 'path';
+
+import { ConfigError, readStructuredFile } from './config.js';
+import { locate, sourceLabel } from './input.js';
+import type { InputSource } from './input.js';
+
+export const BASELINE_FILE = '.agntorbaseline';
+const BASELINE_VERSION = 1;
+
+export type FindingKind = 'guard' | 'redact';
+
+/**
+ * One accepted finding. Only the fingerprint is used for matching; type and
+ * path are kept so the file can be reviewed. Matched text is never stored.
+ */
+export interface BaselineEntry {
+  fingerprint: string;
+  kind: FindingKind;
+  type: string;
+  path: string;
+}
+
+export interface Baseline {
+  version: number;
+  createdAt: string;
+  findings: BaselineEntry[];
+}
+
+/**
+ * Decides whether a finding is suppressed; returns why, or undefined to report it.
+ */
+export type Suppressor = (
+  kind: FindingKind,
+  type: string,
+  index: number,
+  match: string
+) => 'baseline' | 'ignore' | undefined;
+
+export interface IgnoreDirective {
+  line: number;
+  reason: string;
+  /** Finding types the comment is limited to; empty means all. */
+  types: string[];
+}
+
+export interface IgnoreComments {
+  directives: IgnoreDirective[];
+  /** Lines with an `agntor-ignore` that has no reason (not honored). */
+  missingReason: number[];
+}
+
+const IGNORE_RE = /agntor-ignore(?:\[([^\]]*)\])?(?::[ \t]*([^\r\n]*))?/g;
+
+// Text before a directive on its line must end in a comment opener
+const COMMENT_OPENER_RE = /(?:\/\/|#|\/\*|<!--|--|^[ \t]*\*)[ \t]*$/;
+
+/**
+ * Fingerprint a finding by type, path and the matched text in the context of
+ * its (trimmed) line, so it survives unrelated edits elsewhere in the file.
+ */
+export function fingerprint(kind: FindingKind, type: string, path: string, text: string, index: number, match: string): string {
+  const lineStart = text.lastIndexOf('\n', index - 1) + 1;
+  const nl = text.indexOf('\n', index);
+  const line = text.slice(lineStart, nl === -1 ? text.length : nl).trim();
+  return createHash('sha256')
+    .update([kind, type, path, match, line].join('\u0000'))
+    .digest('hex');
+}
+
+/**
+ * Path recorded for a source: relative to the working directory with `/`
+ * separators, so baselines are portable across machines.
+ */
+export function baselinePath(source: InputSource): string {
+  if (!source.path || source.path === '-') return sourceLabel(source);
+  return nodePath.relative(process.cwd(), source.path).split(nodePath.sep).join('/');
+}
+
+/**
+ * Read a baseline file; returns undefined when it does not exist. Throws
+ * ConfigError when it is not a baseline.
+ */
+export function loadBaseline(file: string): Baseline | undefined {
+  if (!existsSync(file)) return undefined;
+  const doc: any = readStructuredFile(file);
+  if (doc?.version !== BASELINE_VERSION || !Array.isArray(doc.findings)) {
+    throw new ConfigError(file, [`expected a baseline of version ${BASELINE_VERSION} with a findings list`]);
+  }
+  return doc as Baseline;
+}
+
+export function writeBaseline(file: string, findings: BaselineEntry[]): void {
+  const unique = new Map(findings.map((f) => [f.fingerprint, f]));
+  const sorted = [...unique.values()].sort(
+    (a, b) => a.path.localeCompare(b.path) || a.type.localeCompare(b.type) || a.fingerprint.localeCompare(b.fingerprint)
+  );
+  const baseline: Baseline = {
+    version: BASELINE_VERSION,
+    createdAt: new Date().toISOString(),
+    findings: sorted,
+  };
+  writeFileSync(file, JSON.stringify(baseline, null, 2) + '\n');
+}
+
+/**
+ * Find `agntor-ignore: <reason>` comments. A comment covers its own line and
+ * the line after it; `agntor-ignore[email,aws_key]: reason` limits it to
+ * those finding types. The directive must open a comment (`//`, `#`, `/*`,
+ * `<!--`, `--` or a `*` block line), so it cannot hide in prose.
+ */
+export function parseIgnoreComments(text: string): IgnoreComments {
+  const directives: IgnoreDirective[] = [];
+  const missingReason: number[] = [];
+  IGNORE_RE.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = IGNORE_RE.exec(text)) !== null) {
+    const lineStart = text.lastIndexOf('\n', m.index - 1) + 1;
+    if (!COMMENT_OPENER_RE.test(text.slice(lineStart, m.index))) continue;
+    const { line } = locate(text, m.index);
+    const reason = (m[2] || '').replace(/\s*(\*\/|-->)\s*$/, '').trim();
+    if (!reason) {
+      missingReason.push(line);
+      continue;
+    }
+    const types = (m[1] || '').split(',').map((t) => t.trim()).filter(Boolean);
+    directives.push({ line, reason, types });
+  }
+  return { directives, missingReason };
+}
+
+/**
+ * Inline ignores for a source. Only files count: text given as an argument
+ * or on stdin is the untrusted input being checked, and a directive in it
+ * would let the input switch off its own check.
+ */
+export function inlineIgnores(source: InputSource): IgnoreComments {
+  if (!source.path || source.path === '-') return { directives: [], missingReason: [] };
+  return parseIgnoreComments(source.text);
+}
+
+/**
+ * Build the suppressor for one source from a baseline and its inline comments.
+ */
+export function createSuppressor(baseline: Baseline | undefined, path: string, text: string, ignores: IgnoreComments): Suppressor {
+  const known = new Set((baseline?.findings || []).map((f) => f.fingerprint));
+
+  return (kind, type, index, match) => {
+    if (ignores.directives.length > 0) {
+      const { line } = locate(text, index);
+      const hit = ignores.directives.some(
+        (d) => (d.line === line || d.line === line - 1) && (d.types.length === 0 || d.types.includes(type))
+      );
+      if (hit) return 'ignore';
+    }
+    if (known.size > 0 && known.has(fingerprint(kind, type, path, text, index, match))) {
+      return 'baseline';
+    }
+    return undefined;
+  };
+}
@@ -0,0 +1,72 @@
+import { createHash } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Small on-disk JSON cache for slow explainer calls. Entries live in
+ * `<dir>/<namespace>/<key>.json`; unreadable or expired entries count as misses
+ * and write failures are ignored, so the cache can never break a command.
+ */
+export interface Cache {
+  get<T>(namespace: string, key: string, ttlMs?: number): T | undefined;
+  set(namespace: string, key: string, value: unknown): void;
+}
+
+interface CacheEntry {
+  createdAt: number;
+  value: unknown;
+}
+
+/**
+ * `AGNTOR_CACHE_DIR`, else `$XDG_CACHE_HOME/agntor`, else `~/.cache/agntor`.
+ */
+export function defaultCacheDir(): string {
+  if (process.env.AGNTOR_CACHE_DIR) return process.env.AGNTOR_CACHE_DIR;
+  const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(base, 'agntor');
+}
+
+/**
+ * Stable key for the given parts (sha256, hex).
+ */
+export function cacheKey(...parts: string[]): string {
+  return createHash('sha256').update(parts.join('\u0000')).digest('hex');
+}
+
+export function createFileCache(dir: string = defaultCacheDir()): Cache {
+  const fileFor = (namespace: string, key: string) => path.join(dir, namespace, `${key}.json`);
+
+  return {
+    get<T>(namespace: string, key: string, ttlMs?: number): T | undefined {
+      try {
+        const entry: CacheEntry = JSON.parse(readFileSync(fileFor(namespace, key), 'utf8'));
+        if (ttlMs !== undefined && Date.now() - entry.createdAt > ttlMs) return undefined;
+        return entry.value as T;
+      } catch {
+        return undefined;
+      }
+    },
+    set(namespace, key, value) {
+      try {
+        mkdirSync(path.join(dir, namespace), { recursive: true });
+        const entry: CacheEntry = { createdAt: Date.now(), value };
+        writeFileSync(fileFor(namespace, key), JSON.stringify(entry));
+      } catch {
+        // Read-only home or full disk: run uncached
+      }
+    },
+  };
+}
+
+/**
+ * A cache that never stores anything (--no-cache).
+ */
+export function createNullCache(): Cache {
+  return {
+    get() {
+      return undefined;
+    },
+    set() {},
+  };
+}
@@ -0,0 +1,354 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+import { EXPLAINER_BACKENDS } from './explainer.js';
+import type { ExplainerBackend } from './explainer.js';
+import { SEVERITIES } from './severity.js';
+import type { Severity } from './severity.js';
+import { hostPatternError } from './ssrf.js';
+
+/**
+ * Contents of `agntor.config.(json|yaml)`. Every section is optional.
+ */
+export interface AgntorConfig {
+  policy?: PolicyConfig;
+  explainer?: ExplainerConfig;
+  ticket?: TicketConfig;
+  settlement?: SettlementConfig;
+  ssrf?: SsrfConfig;
+}
+
+export interface SsrfConfig {
+  /** Hosts trusted even on private addresses: names, `*.domain`, IPs or CIDR ranges. */
+  allowlist?: string[];
+  /** Hosts and ranges that are always blocked, in the same forms. */
+  denylist?: string[];
+  /** Resolve hostnames and block private results (see --resolve). */
+  resolve?: boolean;
+  /** Resolve from this hosts file instead of DNS; see --hosts-file. */
+  hostsFile?: string;
+  /** Redirect hops checked by --follow-redirects (default 5). */
+  maxRedirects?: number;
+}
+
+export interface SettlementConfig {
+  /** Reputation store; see --reputation-file. */
+  reputationFile?: string;
+  /** Files of addresses that always block. */
+  denylist?: string[];
+  /** Files of trusted addresses. */
+  allowlist?: string[];
+}
+
+export interface TicketConfig {
+  /** Key for signing and verifying tickets; see --key-file. */
+  keyFile?: string;
+  /** Issuer set on generated tickets and required on validated ones. */
+  issuer?: string;
+  /** Audience required on validated tickets. */
+  audience?: string;
+  /** Revocation and kill-switch store; see --revocations. */
+  revocationFile?: string;
+}
+
+export interface ExplainerConfig {
+  /** copilot (default), openai, template or none. */
+  backend?: ExplainerBackend;
+  /** Cache explanations on disk (default true; see also --no-cache). */
+  cache?: boolean;
+  /** How long a backend health check is reused, in seconds (default 600). */
+  probeTtlSeconds?: number;
+  /** Maximum explanation requests in flight (default 2). */
+  concurrency?: number;
+  openai?: {
+    baseUrl?: string;
+    model?: string;
+    /** Name of the environment variable holding the API key. */
+    apiKeyEnv?: string;
+    timeoutMs?: number;
+  };
+}
+
+export interface PatternConfig {
+  name: string;
+  pattern: string;
+  flags?: string;
+  severity?: Severity;
+  /** Redaction patterns only: text to substitute for the match. */
+  replacement?: string;
+}
+
+export interface PolicyConfig {
+  injection?: {
+    patterns?: PatternConfig[];
+    disable?: string[];
+  };
+  redaction?: {
+    patterns?: PatternConfig[];
+    disable?: string[];
+  };
+  /** Pattern name → regexes; a match whose text hits one is ignored. */
+  allowlist?: Record<string, string[]>;
+}
+
+export const CONFIG_FILENAMES = ['agntor.config.json', 'agntor.config.yaml', 'agntor.config.yml'];
+
+/**
+ * Raised for unreadable or invalid config and policy files. The message lists
+ * every problem, each prefixed with the file and the offending key path.
+ */
+export class ConfigError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly problems: string[]
+  ) {
+    super(`Invalid config ${file}:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Find the config file in the working directory, if any.
+ */
+export function findConfigFile(dir: string = process.cwd()): string | undefined {
+  for (const name of CONFIG_FILENAMES) {
+    const candidate = path.join(dir, name);
+    if (existsSync(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a JSON or YAML file (by extension) without validating it.
+ */
+export function readStructuredFile(file: string): unknown {
+  let raw: string;
+  try {
+    raw = readFileSync(file, 'utf8');
+  } catch (err: any) {
+    throw new ConfigError(file, [err.message]);
+  }
+  try {
+    return /\.ya?ml$/i.test(file) ? YAML.parse(raw) : JSON.parse(raw);
+  } catch (err: any) {
+    throw new ConfigError(file, [`Parse error: ${err.message}`]);
+  }
+}
+
+/**
+ * Load and validate a config file.
+ */
+export function loadConfig(file: string): AgntorConfig {
+  const doc = readStructuredFile(file) ?? {};
+  const problems: string[] = [];
+  if (!isObject(doc)) {
+    throw new ConfigError(file, ['Top level must be an object']);
+  }
+  if (doc.policy !== undefined) {
+    validatePolicy(doc.policy, 'policy', problems);
+  }
+  if (doc.explainer !== undefined) {
+    validateExplainer(doc.explainer, 'explainer', problems);
+  }
+  if (doc.ticket !== undefined) {
+    validateTicket(doc.ticket, 'ticket', problems);
+  }
+  if (doc.settlement !== undefined) {
+    validateSettlement(doc.settlement, 'settlement', problems);
+  }
+  if (doc.ssrf !== undefined) {
+    validateSsrf(doc.ssrf, 'ssrf', problems);
+  }
+  if (problems.length > 0) throw new ConfigError(file, problems);
+  return doc as AgntorConfig;
+}
+
+/**
+ * Load a standalone policy file for --policy. The policy may sit at the top
+ * level or under a `policy` key, so a full config file also works.
+ */
+export function loadPolicyFile(file: string): PolicyConfig {
+  const doc = readStructuredFile(file) ?? {};
+  const problems: string[] = [];
+  const policy = isObject(doc) && isObject(doc.policy) ? doc.policy : doc;
+  validatePolicy(policy, 'policy', problems);
+  if (problems.length > 0) throw new ConfigError(file, problems);
+  return policy as PolicyConfig;
+}
+
+function validatePolicy(value: unknown, at: string, problems: string[]): void {
+  if (!isObject(value)) {
+    problems.push(`${at}: must be an object`);
+    return;
+  }
+  for (const section of ['injection', 'redaction'] as const) {
+    const sec = value[section];
+    if (sec === undefined) continue;
+    if (!isObject(sec)) {
+      problems.push(`${at}.${section}: must be an object`);
+      continue;
+    }
+    if (sec.disable !== undefined) {
+      validateStringList(sec.disable, `${at}.${section}.disable`, problems);
+    }
+    if (sec.patterns !== undefined) {
+      if (!Array.isArray(sec.patterns)) {
+        problems.push(`${at}.${section}.patterns: must be a list`);
+      } else {
+        const seen = new Set<string>();
+        sec.patterns.forEach((p, i) => {
+          validatePattern(p, `${at}.${section}.patterns[${i}]`, section === 'redaction', problems);
+          if (isObject(p) && typeof p.name === 'string') {
+            if (seen.has(p.name)) problems.push(`${at}.${section}.patterns[${i}].name: duplicate name "${p.name}"`);
+            seen.add(p.name);
+          }
+        });
+      }
+    }
+  }
+  if (value.allowlist !== undefined) {
+    if (!isObject(value.allowlist)) {
+      problems.push(`${at}.allowlist: must be a map of pattern name to a list of regexes`);
+    } else {
+      for (const [name, entries] of Object.entries(value.allowlist)) {
+        const key = `${at}.allowlist.${name}`;
+        if (validateStringList(entries, key, problems)) {
+          (entries as string[]).forEach((e, i) => checkRegex(e, undefined, `${key}[${i}]`, problems));
+        }
+      }
+    }
+  }
+}
+
+function validateExplainer(value: unknown, at: string, problems: string[]): void {
+  if (!isObject(value)) {
+    problems.push(`${at}: must be an object`);
+    return;
+  }
+  if (value.backend !== undefined && !EXPLAINER_BACKENDS.includes(value.backend as ExplainerBackend)) {
+    problems.push(`${at}.backend: must be one of ${EXPLAINER_BACKENDS.join(', ')}`);
+  }
+  if (value.cache !== undefined && typeof value.cache !== 'boolean') {
+    problems.push(`${at}.cache: must be true or false`);
+  }
+  const ttl = value.probeTtlSeconds;
+  if (ttl !== undefined && (typeof ttl !== 'number' || ttl < 0)) {
+    problems.push(`${at}.probeTtlSeconds: must be a number of seconds, 0 or more`);
+  }
+  const limit = value.concurrency;
+  if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1)) {
+    problems.push(`${at}.concurrency: must be a positive integer`);
+  }
+  if (value.openai === undefined) return;
+  if (!isObject(value.openai)) {
+    problems.push(`${at}.openai: must be an object`);
+    return;
+  }
+  for (const key of ['baseUrl', 'model', 'apiKeyEnv']) {
+    if (value.openai[key] !== undefined && typeof value.openai[key] !== 'string') {
+      problems.push(`${at}.openai.${key}: must be a string`);
+    }
+  }
+  if (value.openai.baseUrl !== undefined && typeof value.openai.baseUrl === 'string' && !/^https?:\/\//.test(value.openai.baseUrl)) {
+    problems.push(`${at}.openai.baseUrl: must be an http(s) URL`);
+  }
+  const timeout = value.openai.timeoutMs;
+  if (timeout !== undefined && (typeof timeout !== 'number' || timeout <= 0)) {
+    problems.push(`${at}.openai.timeoutMs: must be a positive number`);
+  }
+}
+
+function validateTicket(value: unknown, at: string, problems: string[]): void {
+  if (!isObject(value)) {
+    problems.push(`${at}: must be an object`);
+    return;
+  }
+  for (const key of ['keyFile', 'issuer', 'audience', 'revocationFile']) {
+    if (value[key] !== undefined && (typeof value[key] !== 'string' || !value[key])) {
+      problems.push(`${at}.${key}: must be a non-empty string`);
+    }
+  }
+}
+
+function validateSettlement(value: unknown, at: string, problems: string[]): void {
+  if (!isObject(value)) {
+    problems.push(`${at}: must be an object`);
+    return;
+  }
+  if (value.reputationFile !== undefined && (typeof value.reputationFile !== 'string' || !value.reputationFile)) {
+    problems.push(`${at}.reputationFile: must be a non-empty string`);
+  }
+  for (const key of ['denylist', 'allowlist']) {
+    if (value[key] !== undefined) validateStringList(value[key], `${at}.${key}`, problems);
+  }
+}
+
+function validateSsrf(value: unknown, at: string, problems: string[]): void {
+  if (!isObject(value)) {
+    problems.push(`${at}: must be an object`);
+    return;
+  }
+  for (const key of ['allowlist', 'denylist']) {
+    if (value[key] === undefined || !validateStringList(value[key], `${at}.${key}`, problems)) continue;
+    (value[key] as string[]).forEach((entry, i) => {
+      const error = hostPatternError(entry);
+      if (error) problems.push(`${at}.${key}[${i}]: ${error}`);
+    });
+  }
+  if (value.resolve !== undefined && typeof value.resolve !== 'boolean') {
+    problems.push(`${at}.resolve: must be true or false`);
+  }
+  if (value.hostsFile !== undefined && (typeof value.hostsFile !== 'string' || !value.hostsFile)) {
+    problems.push(`${at}.hostsFile: must be a non-empty string`);
+  }
+  const hops = value.maxRedirects;
+  if (hops !== undefined && (typeof hops !== 'number' || !Number.isInteger(hops) || hops < 1)) {
+    problems.push(`${at}.maxRedirects: must be a positive integer`);
+  }
+}
+
+function validatePattern(value: unknown, at: string, allowReplacement: boolean, problems: string[]): void {
+  if (!isObject(value)) {
+    problems.push(`${at}: must be an object with name and pattern`);
+    return;
+  }
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    problems.push(`${at}.name: required string`);
+  }
+  if (value.flags !== undefined && (typeof value.flags !== 'string' || !/^[imsu]*$/.test(value.flags))) {
+    problems.push(`${at}.flags: only i, m, s and u are supported`);
+  }
+  if (typeof value.pattern !== 'string' || !value.pattern) {
+    problems.push(`${at}.pattern: required string`);
+  } else {
+    checkRegex(value.pattern, typeof value.flags === 'string' ? value.flags : undefined, `${at}.pattern`, problems);
+  }
+  if (value.severity !== undefined && !SEVERITIES.includes(value.severity as Severity)) {
+    problems.push(`${at}.severity: must be one of ${SEVERITIES.join(', ')}`);
+  }
+  if (value.replacement !== undefined) {
+    if (!allowReplacement) problems.push(`${at}.replacement: only supported for redaction patterns`);
+    else if (typeof value.replacement !== 'string') problems.push(`${at}.replacement: must be a string`);
+  }
+}
+
+function checkRegex(source: string, flags: string | undefined, at: string, problems: string[]): void {
+  try {
+    new RegExp(source, flags);
+  } catch (err: any) {
+    problems.push(`${at}: ${err.message}`);
+  }
+}
+
+function validateStringList(value: unknown, at: string, problems: string[]): boolean {
+  if (!Array.isArray(value) || !value.every((v) => typeof v === 'string')) {
+    problems.push(`${at}: must be a list of strings`);
+    return false;
+  }
+  return true;
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
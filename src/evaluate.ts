@@ -0,0 +1,218 @@
+import { readTable } from './ledger.js';
+import { runGuard, runRedact, withVariants } from './policy.js';
+import type { EffectivePolicy, ScanOptions } from './policy.js';
+import type { EvalMetrics, EvalMiss, EvalTypeMetrics } from './report.js';
+
+/**
+ * One labeled sample of an evaluation dataset.
+ */
+export interface EvalSample {
+  /** The sample's `id`, else `row <n>`. */
+  id: string;
+  text: string;
+  injection: boolean;
+  /** Expected violation types; undefined when the sample does not list them. */
+  violations?: string[];
+  /** Expected secret types; none when the sample does not list them. */
+  secrets: string[];
+}
+
+export interface EvalRowError {
+  row: number;
+  message: string;
+}
+
+/**
+ * Scores of one policy on a dataset.
+ */
+export interface EvalResult {
+  guard: EvalMetrics;
+  violations: EvalTypeMetrics[];
+  /** Summed over secret types; true negatives are samples with no secret expected or found. */
+  redaction: EvalMetrics;
+  secrets: EvalTypeMetrics[];
+  falsePositives: EvalMiss[];
+  falseNegatives: EvalMiss[];
+}
+
+interface Counts {
+  tp: number;
+  fp: number;
+  fn: number;
+  tn: number;
+}
+
+/**
+ * Read a dataset (`.jsonl`, `.ndjson`, `.json` or `.csv`, as for ledgers).
+ * Each row has `text` and `label` (`benign` or `injection`), and optionally
+ * `id`, `violations` and `secrets`. Bad rows are returned as errors.
+ */
+export function readDataset(file: string): { samples: EvalSample[]; errors: EvalRowError[] } {
+  const samples: EvalSample[] = [];
+  const errors: EvalRowError[] = [];
+  for (const { row, data } of readTable(file)) {
+    const result = toSample(row, data);
+    if (typeof result === 'string') errors.push({ row, message: result });
+    else samples.push(result);
+  }
+  return { samples, errors };
+}
+
+/**
+ * Run guard and redact on every sample under `policy` and score them
+ * against the labels. Types are compared per sample: finding a type twice
+ * in one sample is one hit.
+ */
+export async function evaluatePolicy(samples: EvalSample[], policy: EffectivePolicy, options: ScanOptions = {}): Promise<EvalResult> {
+  const guard = counts();
+  const violations = new Map<string, Counts>();
+  const redaction = counts();
+  const secrets = new Map<string, Counts>();
+  const falsePositives: EvalMiss[] = [];
+  const falseNegatives: EvalMiss[] = [];
+  let labeled = 0;
+
+  // Every labeled type gets a row, even when nothing finds it
+  for (const s of samples) {
+    for (const t of s.violations || []) typeCounts(violations, t);
+    for (const t of s.secrets) typeCounts(secrets, t);
+  }
+
+  for (const sample of samples) {
+    const scan = withVariants(sample.text, options);
+    const outcome = await runGuard(sample.text, policy, undefined, scan);
+    const blocked = outcome.classification === 'block';
+    const patterns = [...new Set(outcome.matches.map((m) => m.pattern))];
+    if (blocked && sample.injection) guard.tp++;
+    else if (blocked) {
+      guard.fp++;
+      falsePositives.push({ sample: sample.id, check: 'guard', ...(patterns.length ? { patterns } : {}) });
+    } else if (sample.injection) {
+      guard.fn++;
+      falseNegatives.push({ sample: sample.id, check: 'guard' });
+    } else guard.tn++;
+
+    // Per-type scores only where the sample says which types it expects
+    const expectedViolations = sample.violations ?? (sample.injection ? undefined : []);
+    if (expectedViolations) {
+      labeled++;
+      const found = blocked ? outcome.violation_types : [];
+      scoreTypes(sample, 'guard', expectedViolations, found, violations, falsePositives, falseNegatives);
+    }
+
+    const found = [...new Set(runRedact(sample.text, policy, undefined, scan).findings.map((f) => f.type))];
+    scoreTypes(sample, 'redact', sample.secrets, found, secrets, falsePositives, falseNegatives);
+    if (sample.secrets.length === 0 && found.length === 0) redaction.tn++;
+  }
+
+  for (const c of secrets.values()) {
+    redaction.tp += c.tp;
+    redaction.fp += c.fp;
+    redaction.fn += c.fn;
+  }
+
+  return {
+    guard: metrics(guard),
+    violations: typeMetrics(violations, labeled),
+    redaction: metrics(redaction),
+    secrets: typeMetrics(secrets, samples.length),
+    falsePositives,
+    falseNegatives,
+  };
+}
+
+/**
+ * Misses one result has and the other does not: `fixed` were wrong under
+ * `before` and are right under `after`, `regressed` the reverse.
+ */
+export function compareResults(before: EvalResult, after: EvalResult): { fixed: EvalMiss[]; regressed: EvalMiss[] } {
+  const key = (m: EvalMiss) => `${m.sample}\u0000${m.check}\u0000${m.type ?? ''}`;
+  const misses = (r: EvalResult) => [...r.falsePositives, ...r.falseNegatives];
+  const beforeKeys = new Set(misses(before).map(key));
+  const afterKeys = new Set(misses(after).map(key));
+  return {
+    fixed: misses(before).filter((m) => !afterKeys.has(key(m))),
+    regressed: misses(after).filter((m) => !beforeKeys.has(key(m))),
+  };
+}
+
+function scoreTypes(
+  sample: EvalSample,
+  check: EvalMiss['check'],
+  expected: string[],
+  found: string[],
+  byType: Map<string, Counts>,
+  falsePositives: EvalMiss[],
+  falseNegatives: EvalMiss[]
+): void {
+  for (const type of new Set([...expected, ...found])) {
+    const c = typeCounts(byType, type);
+    const want = expected.includes(type);
+    const got = found.includes(type);
+    if (want && got) c.tp++;
+    else if (got) {
+      c.fp++;
+      falsePositives.push({ sample: sample.id, check, type });
+    } else {
+      c.fn++;
+      falseNegatives.push({ sample: sample.id, check, type });
+    }
+  }
+}
+
+function typeCounts(byType: Map<string, Counts>, type: string): Counts {
+  let c = byType.get(type);
+  if (!c) byType.set(type, (c = counts()));
+  return c;
+}
+
+function counts(): Counts {
+  return { tp: 0, fp: 0, fn: 0, tn: 0 };
+}
+
+/**
+ * Precision, recall and F1. Precision is null without predictions, recall
+ * without expected hits, F1 when there were neither.
+ */
+function metrics(c: Counts): EvalMetrics {
+  const precision = c.tp + c.fp > 0 ? c.tp / (c.tp + c.fp) : null;
+  const recall = c.tp + c.fn > 0 ? c.tp / (c.tp + c.fn) : null;
+  const f1 = c.tp + c.fp + c.fn > 0 ? (2 * c.tp) / (2 * c.tp + c.fp + c.fn) : null;
+  return { ...c, precision, recall, f1 };
+}
+
+/**
+ * Per-type metrics; a type's true negatives are the other `scored` samples.
+ */
+function typeMetrics(byType: Map<string, Counts>, scored: number): EvalTypeMetrics[] {
+  return [...byType]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([type, c]) => ({ type, ...metrics({ ...c, tn: scored - c.tp - c.fp - c.fn }) }));
+}
+
+function toSample(row: number, data: unknown): EvalSample | string {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return 'not a JSON object';
+  const d = data as Record<string, unknown>;
+  if (typeof d.text !== 'string' || !d.text) return 'missing text';
+  if (d.label !== 'benign' && d.label !== 'injection') return `label must be "benign" or "injection", not ${JSON.stringify(d.label)}`;
+  const violations = typeList(d.violations);
+  const secrets = typeList(d.secrets);
+  if (violations === null) return 'violations must be a list of strings';
+  if (secrets === null) return 'secrets must be a list of strings';
+  if (d.label === 'benign' && violations?.length) return 'a benign sample cannot list violations';
+  return {
+    id: d.id !== undefined && d.id !== '' ? String(d.id) : `row ${row}`,
+    text: d.text,
+    injection: d.label === 'injection',
+    ...(violations ? { violations } : {}),
+    secrets: secrets || [],
+  };
+}
+
+// Undefined when absent, null when malformed; CSV cells may be `a;b`
+function typeList(value: unknown): string[] | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value === 'string') return value.split(/[;,]/).map((t) => t.trim()).filter(Boolean);
+  if (!Array.isArray(value) || !value.every((t) => typeof t === 'string')) return null;
+  return [...new Set(value as string[])];
+}
@@ -0,0 +1,269 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+import type { ExplainerConfig } from './config.js';
+
+const execFileAsync = promisify(execFile);
+
+export const EXPLAINER_BACKENDS = ['copilot', 'openai', 'template', 'none'] as const;
+export type ExplainerBackend = (typeof EXPLAINER_BACKENDS)[number];
+
+/**
+ * Structured description of what is being explained. LLM backends use the
+ * prompt; the offline template backend only looks at the topic.
+ */
+export type ExplanationTopic =
+  | { kind: 'guard'; classification: string; violations: string[] }
+  | { kind: 'redact'; types: string[]; count: number }
+  | { kind: 'ticket'; payload: Record<string, any> }
+  | { kind: 'settlement'; classification: string; riskScore: number; riskFactors: string[] }
+  | { kind: 'ssrf'; url: string; safe: boolean; reason?: string }
+  | { kind: 'scan'; level: string; reasons: string[] };
+
+export interface ExplainerProbe {
+  available: boolean;
+  /** Backend version, when it reports one; part of the explanation cache key. */
+  version?: string;
+}
+
+export interface Explainer {
+  readonly name: ExplainerBackend;
+  /** Identifies the backend and model in cache keys. */
+  readonly id: string;
+  /** Shown in the status line and spinners. */
+  readonly label: string;
+  /** Printed when the backend is unavailable. */
+  readonly setupHint?: string;
+  /** Whether answers are worth caching on disk (false for local templates). */
+  readonly cacheable: boolean;
+  /** Health check; must not throw. */
+  probe(): Promise<ExplainerProbe>;
+  /** Returns '' when no explanation could be produced. */
+  explain(prompt: string, topic: ExplanationTopic): Promise<string>;
+}
+
+/**
+ * Build the explainer selected by --explainer or the config file.
+ */
+export function createExplainer(backend: ExplainerBackend, config: ExplainerConfig = {}): Explainer {
+  switch (backend) {
+    case 'copilot':
+      return createCopilotExplainer();
+    case 'openai':
+      return createOpenAIExplainer(config.openai);
+    case 'template':
+      return createTemplateExplainer();
+    case 'none':
+      return createNullExplainer();
+  }
+}
+
+// ─── GitHub Copilot CLI ──────────────────────────────────────────────────────
+
+export function createCopilotExplainer(): Explainer {
+  return {
+    name: 'copilot',
+    id: 'copilot',
+    label: 'GitHub Copilot CLI',
+    setupHint: 'gh extension install github/gh-copilot',
+    cacheable: true,
+    async probe() {
+      try {
+        const { stdout } = await execFileAsync('gh', ['copilot', '--', '--version'], {
+          timeout: 15000,
+        });
+        if (!stdout.includes('Copilot CLI')) return { available: false };
+        return { available: true, version: stdout.trim().split('\n')[0] };
+      } catch {
+        return { available: false };
+      }
+    },
+    async explain(prompt) {
+      try {
+        const { stdout } = await execFileAsync(
+          'gh',
+          ['copilot', '--', '-p', prompt],
+          { timeout: 60000, maxBuffer: 1024 * 1024 }
+        );
+        return cleanOutput(stdout);
+      } catch {
+        return '';
+      }
+    },
+  };
+}
+
+/**
+ * Clean ANSI escape codes and usage stats from output.
+ */
+function cleanOutput(output: string): string {
+  let cleaned = output
+    .replace(/\x1B\[[0-9;]*[a-zA-Z]/g, '')
+    .replace(/\r/g, '');
+
+  const markers = ['\nTotal usage est:', '\nAPI time spent:'];
+  let earliest = cleaned.length;
+  for (const marker of markers) {
+    const idx = cleaned.indexOf(marker);
+    if (idx !== -1 && idx < earliest) {
+      earliest = idx;
+    }
+  }
+  if (earliest < cleaned.length) {
+    cleaned = cleaned.substring(0, earliest);
+  }
+  return cleaned.trim();
+}
+
+// ─── OpenAI-compatible HTTP (llama.cpp, Ollama, vLLM, ...) ───────────────────
+
+const DEFAULT_OPENAI_BASE_URL = 'http://127.0.0.1:11434/v1';
+const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+export function createOpenAIExplainer(options: ExplainerConfig['openai'] = {}): Explainer {
+  const baseUrl = (process.env.AGNTOR_EXPLAINER_URL || options.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  const model = process.env.AGNTOR_EXPLAINER_MODEL || options.model || DEFAULT_OPENAI_MODEL;
+  const apiKey = process.env[options.apiKeyEnv || 'AGNTOR_EXPLAINER_API_KEY'];
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+  return {
+    name: 'openai',
+    id: `openai:${model}@${baseUrl}`,
+    label: `${model} @ ${baseUrl}`,
+    setupHint: 'set explainer.openai.baseUrl in agntor.config or AGNTOR_EXPLAINER_URL',
+    cacheable: true,
+    async probe() {
+      try {
+        const res = await fetch(`${baseUrl}/models`, { headers, signal: AbortSignal.timeout(5000) });
+        return { available: res.ok };
+      } catch {
+        return { available: false };
+      }
+    },
+    async explain(prompt) {
+      try {
+        const res = await fetch(`${baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers,
+          signal: AbortSignal.timeout(options.timeoutMs || 60000),
+          body: JSON.stringify({
+            model,
+            temperature: 0,
+            messages: [
+              { role: 'system', content: 'You are a concise security analyst explaining scanner findings for AI agent systems.' },
+              { role: 'user', content: prompt },
+            ],
+          }),
+        });
+        if (!res.ok) return '';
+        const body: any = await res.json();
+        return String(body?.choices?.[0]?.message?.content || '').trim();
+      } catch {
+        return '';
+      }
+    },
+  };
+}
+
+// ─── Offline templates ───────────────────────────────────────────────────────
+
+// Ordered most specific first; matched against the redaction type name
+const REDACTION_NOTES: Array<[RegExp, string]> = [
+  [/mnemonic|seed/i, 'A wallet recovery phrase. Anyone holding it controls every account derived from it; funds cannot be recovered once moved.'],
+  [/private[_-]?key|wif|xprv|keystore/i, 'A private signing key. Whoever has it can sign transactions or impersonate the owner; move funds and rotate immediately.'],
+  [/aws/i, 'An AWS access key. It grants API access to the cloud account; deactivate it in IAM and review CloudTrail for use.'],
+  [/api[_-]?key|token|bearer|jwt/i, 'An API credential. It lets a caller act with the owner\'s quota and permissions; revoke and reissue it.'],
+  [/password|secret|credential/i, 'A password or shared secret. Treat it as compromised and change it everywhere it is reused.'],
+  [/credit[_-]?card|iban|ssn|passport/i, 'Regulated personal or financial data. Leaking it can create compliance obligations (PCI, GDPR).'],
+  [/email|phone/i, 'Contact information (PII). It enables phishing and social engineering against the owner.'],
+  [/address/i, 'A wallet or network address. Not secret by itself, but it links the agent to on-chain activity.'],
+];
+
+const VIOLATION_NOTES: Array<[RegExp, string]> = [
+  [/jailbreak|dan|role/i, 'A jailbreak or role-play attempt tries to talk the agent out of its safety rules.'],
+  [/exfil|leak|system[_-]?prompt/i, 'The input tries to extract hidden instructions or data the agent can see.'],
+  [/inject|override|ignore/i, 'An instruction override tries to replace the agent\'s instructions with the attacker\'s.'],
+];
+
+/**
+ * Deterministic explanations for air-gapped use, keyed by violation and
+ * redaction type. Always available.
+ */
+export function createTemplateExplainer(): Explainer {
+  return {
+    name: 'template',
+    id: 'template',
+    label: 'offline templates',
+    cacheable: false,
+    async probe() {
+      return { available: true };
+    },
+    async explain(_prompt, topic) {
+      return explainFromTemplate(topic);
+    },
+  };
+}
+
+export function explainFromTemplate(topic: ExplanationTopic): string {
+  switch (topic.kind) {
+    case 'guard': {
+      const lines = topic.violations.map((v) => `- **${v}**: ${noteFor(VIOLATION_NOTES, v) || 'A pattern associated with prompt injection matched.'}`);
+      return [
+        `The input was classified as **${topic.classification}**.`,
+        ...lines,
+        'If an agent followed these instructions it could ignore its policy, leak data, or take actions on the attacker\'s behalf. Do not forward this input to the model or its tools.',
+      ].join('\n');
+    }
+    case 'redact': {
+      const lines = topic.types.map((t) => `- **${t}**: ${noteFor(REDACTION_NOTES, t) || 'Sensitive data that should not leave the agent boundary.'}`);
+      return [`Found ${topic.count} secret(s):`, ...lines].join('\n');
+    }
+    case 'ticket': {
+      const c = topic.payload.constraints || {};
+      return [
+        `Agent **${topic.payload.sub || 'unknown'}** holds a **${topic.payload.audit_level || 'unknown'}** audit ticket from ${topic.payload.iss || 'an unknown issuer'}.`,
+        `- Max operation value: ${c.max_op_value ?? 'unlimited'}`,
+        `- MCP allowlist: ${(c.allowed_mcp_servers || []).join(', ') || 'none'}`,
+        `- Scopes: ${(c.scopes || []).join(' ') || 'none'}`,
+        `- Kill switch: ${c.kill_switch_active ? '**ACTIVE** — the agent must not act' : 'inactive'}`,
+        `- x402 payment required: ${c.requires_x402_payment ? 'yes' : 'no'}`,
+      ].join('\n');
+    }
+    case 'settlement':
+      return [
+        `Risk score ${(topic.riskScore * 100).toFixed(0)}% → **${topic.classification}**.`,
+        ...topic.riskFactors.map((f) => `- ${f}`),
+        topic.classification === 'block'
+          ? 'Do not settle. Verify the recipient out of band or route through escrow.'
+          : 'No blocking factors. Settle within the ticket\'s value limits.',
+      ].join('\n');
+    case 'ssrf':
+      return topic.safe
+        ? `\`${topic.url}\` resolves to a public destination, so an agent may fetch it.`
+        : `\`${topic.url}\` was blocked${topic.reason ? `: ${topic.reason}` : ''}. Fetching internal addresses or cloud metadata endpoints lets an attacker read credentials and internal services through the agent.`;
+    case 'scan':
+      return [`Overall risk: **${topic.level}**.`, ...topic.reasons.map((r) => `- ${r}`)].join('\n');
+  }
+}
+
+function noteFor(notes: Array<[RegExp, string]>, type: string): string | undefined {
+  return notes.find(([re]) => re.test(type))?.[1];
+}
+
+// ─── Disabled ────────────────────────────────────────────────────────────────
+
+function createNullExplainer(): Explainer {
+  return {
+    name: 'none',
+    id: 'none',
+    label: 'explanations disabled',
+    cacheable: false,
+    async probe() {
+      return { available: false };
+    },
+    async explain() {
+      return '';
+    },
+  };
+}
@@ -0,0 +1,205 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+
+import { isBinary } from './input.js';
+import type { InputSource } from './input.js';
+
+const execFileAsync = promisify(execFile);
+
+// Full-history patches of large repositories run to hundreds of megabytes
+const MAX_GIT_OUTPUT = 512 * 1024 * 1024;
+
+// Marks hooks written by `agntor hooks install`, so reinstalling may replace them
+const HOOK_MARKER = '# Installed by agntor hooks install';
+
+/**
+ * Raised when git is missing, the directory is not a repository, or a git
+ * command fails. The message is git's own error.
+ */
+export class GitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+/**
+ * Lines a diff adds to one file, numbered as in the new version.
+ */
+export interface FileAdditions {
+  /** Path relative to the working directory, with `/` separators. */
+  path: string;
+  added: Array<{ line: number; text: string }>;
+}
+
+/**
+ * Lines one commit added to one file.
+ */
+export interface CommitAdditions extends FileAdditions {
+  commit: string;
+  date: string;
+  subject: string;
+}
+
+/**
+ * Files and added lines of the working tree against `base` (default: HEAD),
+ * or of the index against HEAD with `staged`. A `base` branch is compared
+ * from its merge base, so changes made on the base since are not counted.
+ */
+export async function diffAdditions(options: { base?: string; staged?: boolean }): Promise<FileAdditions[]> {
+  const args = ['diff', '--no-color', '--no-ext-diff', '--relative', '-U0', '--diff-filter=d'];
+  if (options.staged) {
+    args.push('--cached');
+  } else if (options.base) {
+    args.push((await git(['merge-base', options.base, 'HEAD'])).trim());
+  } else {
+    args.push('HEAD');
+  }
+  return parseDiff(await git(args));
+}
+
+/**
+ * The new version of a changed file: the staged blob with `staged`, else the
+ * working-tree file. Undefined for binary files.
+ */
+export async function readChangedFile(file: string, staged = false): Promise<InputSource | undefined> {
+  const buf = staged ? await gitBuffer(['show', `:./${file}`]) : await fs.readFile(file);
+  if (isBinary(buf)) return undefined;
+  return { path: file, text: buf.toString('utf8') };
+}
+
+/**
+ * Lines added by every commit reachable from any ref, newest first.
+ */
+export async function historyAdditions(): Promise<CommitAdditions[]> {
+  const log = await git([
+    'log', '--all', '-p', '-U0', '--no-color', '--no-ext-diff', '--relative', '--diff-filter=d', '--format=%x00%H%x09%aI%x09%s',
+  ]);
+  const commits: CommitAdditions[] = [];
+  for (const chunk of log.split('\u0000').slice(1)) {
+    const newline = chunk.indexOf('\n');
+    const [commit, date, ...subject] = chunk.slice(0, newline === -1 ? chunk.length : newline).split('\t');
+    for (const file of parseDiff(newline === -1 ? '' : chunk.slice(newline + 1))) {
+      commits.push({ commit, date, subject: subject.join('\t'), ...file });
+    }
+  }
+  return commits;
+}
+
+/**
+ * A file's content at HEAD, or undefined when HEAD does not have it.
+ */
+export async function headContent(file: string): Promise<string | undefined> {
+  try {
+    return (await gitBuffer(['show', `HEAD:./${file}`])).toString('utf8');
+  } catch (err) {
+    if (err instanceof GitError) return undefined;
+    throw err;
+  }
+}
+
+/**
+ * A shell command that runs this CLI: node and the script by absolute path,
+ * since git runs hooks with a PATH that may not include agntor. Without a
+ * script path (an embedded runtime), the project's local install via npx.
+ */
+export function cliCommand(): string {
+  const script = process.argv[1];
+  if (!script) return 'npx --no-install agntor';
+  return `${shellQuote(process.execPath)} ${shellQuote(path.resolve(script))}`;
+}
+
+/**
+ * Write a pre-commit hook that scans staged changes. An existing hook is only
+ * replaced with `force` or when agntor wrote it.
+ */
+export async function installPreCommitHook(command: string, force = false): Promise<{ file: string; replaced: boolean }> {
+  const hooksDir = path.resolve((await git(['rev-parse', '--git-path', 'hooks'])).trim());
+  const stat = await fs.stat(hooksDir).catch(() => undefined);
+  if (stat && !stat.isDirectory()) {
+    throw new GitError(`The hooks path ${hooksDir} is not a directory; check core.hooksPath`);
+  }
+  const file = path.join(hooksDir, 'pre-commit');
+  const existing = await fs.readFile(file, 'utf8').catch(() => undefined);
+  if (existing !== undefined && !existing.includes(HOOK_MARKER) && !force) {
+    throw new GitError(`${file} already exists; pass --force to replace it`);
+  }
+  const script = [
+    '#!/bin/sh',
+    HOOK_MARKER,
+    '# Blocks the commit when staged changes add secrets or prompt injections.',
+    '# Bypass once with: git commit --no-verify',
+    `exec ${command}`,
+    '',
+  ].join('\n');
+  await fs.mkdir(hooksDir, { recursive: true });
+  await fs.writeFile(file, script, { mode: 0o755 });
+  await fs.chmod(file, 0o755);
+  return { file, replaced: existing !== undefined };
+}
+
+function shellQuote(value: string): string {
+  return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Added lines per file from a unified diff made with `-U0`.
+ */
+function parseDiff(diff: string): FileAdditions[] {
+  const files: FileAdditions[] = [];
+  let current: FileAdditions | undefined;
+  let inHunk = false;
+  let next = 0;
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      current = undefined;
+      inHunk = false;
+    } else if (!inHunk && line.startsWith('+++ ')) {
+      const target = unquote(line.slice(4));
+      current = target === '/dev/null' ? undefined : { path: target.replace(/^b\//, ''), added: [] };
+      if (current) files.push(current);
+    } else if (line.startsWith('@@ ')) {
+      inHunk = true;
+      next = Number(/\+(\d+)/.exec(line)?.[1] ?? 0);
+    } else if (current && line.startsWith('+')) {
+      current.added.push({ line: next++, text: line.slice(1) });
+    }
+  }
+  return files.filter((f) => f.added.length > 0);
+}
+
+// git quotes paths with unusual characters C-style, e.g. "b/caf\303\251.md"
+function unquote(value: string): string {
+  if (!value.startsWith('"')) return value;
+  const bytes: number[] = [];
+  const escapes: Record<string, number> = { n: 10, t: 9, '"': 34, '\\': 92 };
+  for (let i = 1; i < value.length - 1; i++) {
+    if (value[i] !== '\\') {
+      bytes.push(...Buffer.from(value[i]));
+    } else if (/[0-7]/.test(value[i + 1])) {
+      bytes.push(parseInt(value.slice(i + 1, i + 4), 8));
+      i += 3;
+    } else {
+      bytes.push(escapes[value[i + 1]] ?? value.charCodeAt(i + 1));
+      i += 1;
+    }
+  }
+  return Buffer.from(bytes).toString('utf8');
+}
+
+async function git(args: string[]): Promise<string> {
+  return (await gitBuffer(args)).toString('utf8');
+}
+
+async function gitBuffer(args: string[]): Promise<Buffer> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { encoding: 'buffer', maxBuffer: MAX_GIT_OUTPUT });
+    return stdout;
+  } catch (err: any) {
+    if (err.code === 'ENOENT') throw new GitError('git is not installed or not on PATH');
+    const stderr = Buffer.isBuffer(err.stderr) ? err.stderr.toString('utf8').trim() : '';
+    throw new GitError(stderr || err.message);
+  }
+}
@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * A piece of text to scan, with the path it came from (if any).
+ */
+export interface InputSource {
+  /** File path, `-` for stdin, or undefined for text given on the command line. */
+  path?: string;
+  text: string;
+}
+
+export interface InputOptions {
+  file?: string[];
+  include?: string[];
+  exclude?: string[];
+}
+
+export interface CollectedInputs {
+  sources: InputSource[];
+  /** Files that were not read, and why. */
+  skipped: SkippedInput[];
+}
+
+export interface SkippedInput {
+  path: string;
+  reason: 'binary file' | 'broken symlink';
+}
+
+const STDIN = '-';
+const BINARY_SNIFF_BYTES = 8000;
+const DEFAULT_EXCLUDES = ['**/.git/**', '**/node_modules/**'];
+
+/**
+ * Commander collector for repeatable options.
+ */
+export function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Resolve positional input words, `-` (stdin), and --file paths into sources.
+ * Directories given to --file are walked recursively, following symlinks,
+ * and filtered by the --include/--exclude globs; binary files and broken
+ * symlinks are skipped. Stdin can be read once, so `-` may appear only once.
+ */
+export async function collectInputs(parts: string[], options: InputOptions = {}): Promise<CollectedInputs> {
+  const sources: InputSource[] = [];
+  const skipped: SkippedInput[] = [];
+
+  const stdinUses = (parts.length === 1 && parts[0] === STDIN ? 1 : 0) + (options.file || []).filter((f) => f === STDIN).length;
+  if (stdinUses > 1) {
+    throw new Error('Stdin can only be read once; give "-" a single time.');
+  }
+
+  if (parts.length === 1 && parts[0] === STDIN) {
+    sources.push({ path: STDIN, text: await readStdin() });
+  } else if (parts.length > 0) {
+    sources.push({ text: parts.join(' ') });
+  }
+
+  const include = (options.include || []).map(globToRegExp);
+  const exclude = [...DEFAULT_EXCLUDES, ...(options.exclude || [])].map(globToRegExp);
+  const seen = new Set<string>();
+
+  for (const target of options.file || []) {
+    if (target === STDIN) {
+      sources.push({ path: STDIN, text: await readStdin() });
+      continue;
+    }
+    const stat = await fs.stat(target).catch(() => null);
+    if (!stat) {
+      throw new Error(`No such file or directory: ${target}`);
+    }
+    // Explicitly named files are always read; filters only apply to directory walks
+    const files = stat.isDirectory() ? await walk(target, include, exclude, seen, skipped) : [target];
+    for (const file of files) {
+      const buf = await fs.readFile(file);
+      if (isBinary(buf)) {
+        skipped.push({ path: file, reason: 'binary file' });
+        continue;
+      }
+      sources.push({ path: file, text: buf.toString('utf8') });
+    }
+  }
+
+  if (sources.length === 0 && skipped.length === 0) {
+    throw new Error('No input given. Pass text, "-" for stdin, or --file <path>.');
+  }
+  return { sources, skipped };
+}
+
+/**
+ * Convert a character offset (e.g. a redact `span` start) into a 1-based line/column.
+ */
+export function locate(text: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  const end = Math.min(offset, text.length);
+  for (let i = 0; i < end; i++) {
+    if (text.charCodeAt(i) === 10) {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: end - lineStart + 1 };
+}
+
+/**
+ * Human-readable label for a source.
+ */
+export function sourceLabel(source: InputSource): string {
+  if (!source.path) return '<argument>';
+  if (source.path === STDIN) return '<stdin>';
+  return source.path;
+}
+
+/**
+ * Translate a glob (`*`, `**`, `?`) into an anchored RegExp over `/`-separated paths.
+ * Patterns without a slash match against the basename anywhere in the tree.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.includes('/') ? glob.replace(/^\.\//, '') : `**/${glob}`;
+  let re = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories
+        if (pattern[i + 2] === '/') {
+          re += '(?:.*/)?';
+          i += 2;
+        } else {
+          re += '.*';
+          i += 1;
+        }
+      } else {
+        re += '[^/]*';
+      }
+    } else if (ch === '?') {
+      re += '[^/]';
+    } else {
+      re += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/**
+ * Files under `root`, following symlinks. `seen` holds the real paths already
+ * walked or listed, so a link cycle or a second link to the same file is
+ * visited once; links that point nowhere go to `skipped`.
+ */
+async function walk(root: string, include: RegExp[], exclude: RegExp[], seen: Set<string>, skipped: SkippedInput[]): Promise<string[]> {
+  const results: string[] = [];
+  const real = await fs.realpath(root);
+  if (seen.has(real)) return results;
+  seen.add(real);
+  const entries = await fs.readdir(root, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    const full = path.join(root, entry.name);
+    const rel = toPosix(full);
+    const target = entry.isSymbolicLink() ? await fs.stat(full).catch(() => null) : entry;
+    if (!target) {
+      if (!exclude.some((re) => re.test(rel))) skipped.push({ path: full, reason: 'broken symlink' });
+    } else if (target.isDirectory()) {
+      if (exclude.some((re) => re.test(rel) || re.test(`${rel}/`))) continue;
+      results.push(...(await walk(full, include, exclude, seen, skipped)));
+    } else if (target.isFile()) {
+      if (exclude.some((re) => re.test(rel))) continue;
+      if (include.length > 0 && !include.some((re) => re.test(rel))) continue;
+      const file = await fs.realpath(full);
+      if (seen.has(file)) continue;
+      seen.add(file);
+      results.push(full);
+    }
+  }
+  return results;
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/').replace(/^\.\//, '');
+}
+
+/**
+ * Whether file content looks binary: a NUL byte near the start.
+ */
+export function isBinary(buf: Buffer): boolean {
+  const len = Math.min(buf.length, BINARY_SNIFF_BYTES);
+  for (let i = 0; i < len; i++) {
+    if (buf[i] === 0) return true;
+  }
+  return false;
+}
+
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    throw new Error('Expected input on stdin, but stdin is a terminal.');
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
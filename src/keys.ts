@@ -0,0 +1,320 @@
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify } from 'crypto';
+import type { JsonWebKey, KeyObject } from 'crypto';
+import { existsSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+
+import { isObject } from './config.js';
+
+export const TICKET_ALGORITHMS = ['RS256', 'ES256', 'EdDSA'] as const;
+export type AsymmetricAlgorithm = (typeof TICKET_ALGORITHMS)[number];
+
+export const SIGNING_KEY_ENV = 'AGNTOR_SIGNING_KEY';
+
+// Only for --demo; anyone with this source can forge tickets signed with it
+const DEMO_SIGNING_KEY = 'agntor-cli-demo-key-2026';
+
+// Tolerated clock difference for exp/nbf on asymmetric tickets, in seconds
+const CLOCK_SKEW = 30;
+
+export interface VerificationKey {
+  alg: AsymmetricAlgorithm;
+  kid?: string;
+  key: KeyObject;
+}
+
+/**
+ * Key material for tickets. Shared secrets (HS256) go through the SDK's
+ * TicketIssuer; asymmetric keys are signed and verified with node:crypto.
+ */
+export type TicketKey =
+  | { kind: 'secret'; secret: string | Buffer; source: string }
+  | { kind: 'asymmetric'; privateKey?: VerificationKey; publicKeys: VerificationKey[]; source: string };
+
+export interface KeyOptions {
+  keyFile?: string;
+  demo?: boolean;
+}
+
+export interface DecodedJwt {
+  header: Record<string, any>;
+  payload: Record<string, any>;
+}
+
+export interface TicketVerification {
+  valid: boolean;
+  errorCode?: string;
+}
+
+/**
+ * Raised when no usable key is configured or a key file cannot be read.
+ */
+export class KeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyError';
+  }
+}
+
+/**
+ * Resolve the ticket key: --key-file, then AGNTOR_SIGNING_KEY, then the demo
+ * key when --demo is given. There is no silent fallback.
+ */
+export function loadTicketKey(options: KeyOptions): TicketKey {
+  if (options.keyFile) return loadKeyFile(options.keyFile);
+  const fromEnv = process.env[SIGNING_KEY_ENV];
+  if (fromEnv) return { kind: 'secret', secret: fromEnv, source: `$${SIGNING_KEY_ENV}` };
+  if (options.demo) return { kind: 'secret', secret: DEMO_SIGNING_KEY, source: 'demo key' };
+  throw new KeyError(`No signing key. Pass --key-file <file>, set ${SIGNING_KEY_ENV}, or use --demo for the public demo key.`);
+}
+
+/**
+ * Read a PEM key, a JWK or JWKS file, or a file holding a shared secret.
+ */
+export function loadKeyFile(file: string): TicketKey {
+  let raw: string;
+  try {
+    raw = readFileSync(file, 'utf8');
+  } catch (err: any) {
+    throw new KeyError(`Cannot read key file ${file}: ${err.message}`);
+  }
+  const text = raw.trim();
+
+  try {
+    if (text.startsWith('-----BEGIN')) {
+      if (/PRIVATE KEY-----/.test(text)) {
+        const privateKey = createPrivateKey(text);
+        const alg = algorithmOf(privateKey);
+        return {
+          kind: 'asymmetric',
+          privateKey: { alg, key: privateKey },
+          publicKeys: [{ alg, key: createPublicKey(privateKey) }],
+          source: file,
+        };
+      }
+      const publicKey = createPublicKey(text);
+      return { kind: 'asymmetric', publicKeys: [{ alg: algorithmOf(publicKey), key: publicKey }], source: file };
+    }
+
+    if (text.startsWith('{')) {
+      const doc = JSON.parse(text);
+      const jwks: unknown[] = isObject(doc) && Array.isArray(doc.keys) ? doc.keys : [doc];
+      if (jwks.length === 1 && isObject(jwks[0]) && jwks[0].kty === 'oct') {
+        const k = jwks[0].k;
+        if (typeof k !== 'string' || !k) throw new Error('an oct key needs its secret in k');
+        // The raw bytes: a random secret is seldom valid UTF-8
+        return { kind: 'secret', secret: Buffer.from(k, 'base64url'), source: file };
+      }
+      let privateKey: VerificationKey | undefined;
+      const publicKeys: VerificationKey[] = [];
+      for (const jwk of jwks) {
+        if (!isObject(jwk) || typeof jwk.kty !== 'string') throw new Error('every key needs a kty');
+        if (jwk.use !== undefined && jwk.use !== 'sig') continue;
+        const pub = createPublicKey({ key: jwk as JsonWebKey, format: 'jwk' });
+        const alg = algorithmOf(pub, typeof jwk.alg === 'string' ? jwk.alg : undefined);
+        const kid = typeof jwk.kid === 'string' ? jwk.kid : undefined;
+        publicKeys.push({ alg, kid, key: pub });
+        if (jwk.d !== undefined && !privateKey) {
+          privateKey = { alg, kid, key: createPrivateKey({ key: jwk as JsonWebKey, format: 'jwk' }) };
+        }
+      }
+      if (publicKeys.length === 0) throw new Error('no signing keys');
+      return { kind: 'asymmetric', privateKey, publicKeys, source: file };
+    }
+  } catch (err: any) {
+    if (err instanceof KeyError) throw err;
+    throw new KeyError(`Invalid key file ${file}: ${err.message}`);
+  }
+
+  if (!text) throw new KeyError(`Key file ${file} is empty`);
+  return { kind: 'secret', secret: text, source: file };
+}
+
+/**
+ * JWS algorithm for a key. A JWK's declared `alg` must agree with its type.
+ */
+function algorithmOf(key: KeyObject, declared?: string): AsymmetricAlgorithm {
+  let alg: AsymmetricAlgorithm;
+  switch (key.asymmetricKeyType) {
+    case 'rsa':
+      alg = 'RS256';
+      break;
+    case 'ec':
+      if (key.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+        throw new KeyError(`Unsupported EC curve ${key.asymmetricKeyDetails?.namedCurve}; ES256 needs P-256`);
+      }
+      alg = 'ES256';
+      break;
+    case 'ed25519':
+      alg = 'EdDSA';
+      break;
+    default:
+      throw new KeyError(`Unsupported key type ${key.asymmetricKeyType}; use RSA, P-256 or Ed25519`);
+  }
+  if (declared && declared !== alg) {
+    throw new KeyError(`Key declares alg ${declared} but is a ${alg} key`);
+  }
+  return alg;
+}
+
+/**
+ * Split a JWT without verifying it; returns null when it is malformed.
+ */
+export function decodeJwt(token: string): DecodedJwt | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    if (!isObject(header) || !isObject(payload)) return null;
+    return { header, payload };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sign a ticket payload with an asymmetric private key.
+ */
+export function signJwt(payload: Record<string, unknown>, privateKey: VerificationKey): string {
+  const header: Record<string, string> = { alg: privateKey.alg, typ: 'JWT' };
+  if (privateKey.kid) header.kid = privateKey.kid;
+  const input = `${base64url(header)}.${base64url(payload)}`;
+  const signature = signWith(privateKey.alg, input, privateKey.key);
+  return `${input}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Verify an asymmetrically signed ticket: algorithm, key id, signature, and
+ * the exp/nbf window. A ticket without `exp` is rejected, as the SDK does for
+ * HS256, so no ticket stays valid forever. Tokens whose alg does not match a configured key are
+ * rejected outright, so an HS256 token cannot be verified with a public key.
+ */
+export function verifyJwt(token: string, publicKeys: VerificationKey[]): TicketVerification {
+  const decoded = decodeJwt(token);
+  if (!decoded) return { valid: false, errorCode: 'MALFORMED' };
+  const { header, payload } = decoded;
+
+  let candidates = publicKeys.filter((k) => k.alg === header.alg);
+  if (candidates.length === 0) return { valid: false, errorCode: 'ALGORITHM_MISMATCH' };
+  if (typeof header.kid === 'string' && candidates.some((k) => k.kid)) {
+    candidates = candidates.filter((k) => k.kid === header.kid);
+    if (candidates.length === 0) return { valid: false, errorCode: 'UNKNOWN_KEY_ID' };
+  }
+
+  const [h, p, s] = token.split('.');
+  const signature = Buffer.from(s, 'base64url');
+  if (!candidates.some((k) => verifyWith(k.alg, `${h}.${p}`, k.key, signature))) {
+    return { valid: false, errorCode: 'INVALID_SIGNATURE' };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.exp !== 'number') return { valid: false, errorCode: 'MISSING_EXPIRY' };
+  if (now > payload.exp + CLOCK_SKEW) {
+    return { valid: false, errorCode: 'EXPIRED' };
+  }
+  if (typeof payload.nbf === 'number' && now + CLOCK_SKEW < payload.nbf) {
+    return { valid: false, errorCode: 'NOT_YET_VALID' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Check the `iss` and `aud` claims of a verified ticket against the expected
+ * values; either check is skipped when no value is configured.
+ */
+export function checkClaims(
+  payload: Record<string, any>,
+  expected: { issuer?: string; audience?: string }
+): TicketVerification {
+  if (expected.issuer && payload.iss !== expected.issuer) {
+    return { valid: false, errorCode: 'ISSUER_MISMATCH' };
+  }
+  if (expected.audience) {
+    const aud = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!aud.includes(expected.audience)) return { valid: false, errorCode: 'AUDIENCE_MISMATCH' };
+  }
+  return { valid: true };
+}
+
+function signWith(alg: AsymmetricAlgorithm, input: string, key: KeyObject): Buffer {
+  const data = Buffer.from(input);
+  if (alg === 'EdDSA') return sign(null, data, key);
+  if (alg === 'ES256') return sign('sha256', data, { key, dsaEncoding: 'ieee-p1363' });
+  return sign('sha256', data, key);
+}
+
+function verifyWith(alg: AsymmetricAlgorithm, input: string, key: KeyObject, signature: Buffer): boolean {
+  const data = Buffer.from(input);
+  try {
+    if (alg === 'EdDSA') return verify(null, data, key, signature);
+    if (alg === 'ES256') return verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+    return verify('sha256', data, key, signature);
+  } catch {
+    return false;
+  }
+}
+
+function base64url(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+// ─── Key generation ──────────────────────────────────────────────────────────
+
+export interface GeneratedKeyFiles {
+  alg: AsymmetricAlgorithm;
+  kid: string;
+  privateKeyFile: string;
+  publicKeyFile: string;
+  jwksFile: string;
+}
+
+/**
+ * Create a keypair and write `<prefix>.key.pem` (private, mode 600),
+ * `<prefix>.pub.pem` and `<prefix>.jwks.json`. The kid is the RFC 7638
+ * thumbprint of the public key.
+ */
+export function generateKeyFiles(alg: AsymmetricAlgorithm, prefix: string, overwrite = false): GeneratedKeyFiles {
+  const files = {
+    privateKeyFile: `${prefix}.key.pem`,
+    publicKeyFile: `${prefix}.pub.pem`,
+    jwksFile: `${prefix}.jwks.json`,
+  };
+  if (!overwrite) {
+    const existing = Object.values(files).filter((f) => existsSync(f));
+    if (existing.length > 0) throw new KeyError(`Refusing to overwrite ${existing.join(', ')} (use --force)`);
+  }
+
+  const { privateKey, publicKey } =
+    alg === 'RS256'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : alg === 'ES256'
+        ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+        : generateKeyPairSync('ed25519');
+
+  const jwk = publicKey.export({ format: 'jwk' });
+  const kid = thumbprint(jwk);
+
+  // A new file, renamed over any old one: writing into an existing file would
+  // keep its mode, which may let others read the key
+  const tmp = `${files.privateKeyFile}.${process.pid}.tmp`;
+  try {
+    rmSync(tmp, { force: true });
+    writeFileSync(tmp, privateKey.export({ format: 'pem', type: 'pkcs8' }) as string, { mode: 0o600, flag: 'wx' });
+    renameSync(tmp, files.privateKeyFile);
+  } catch (err: any) {
+    rmSync(tmp, { force: true });
+    throw new KeyError(`Cannot write ${files.privateKeyFile}: ${err.message}`);
+  }
+  writeFileSync(files.publicKeyFile, publicKey.export({ format: 'pem', type: 'spki' }) as string);
+  writeFileSync(files.jwksFile, JSON.stringify({ keys: [{ ...jwk, kid, alg, use: 'sig' }] }, null, 2) + '\n');
+  return { alg, kid, ...files };
+}
+
+function thumbprint(jwk: JsonWebKey): string {
+  const members =
+    jwk.kty === 'RSA'
+      ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+      : jwk.kty === 'EC'
+        ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+        : { crv: jwk.crv, kty: jwk.kty, x: jwk.x };
+  return createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+}
@@ -0,0 +1,327 @@
+import { readFileSync } from 'fs';
+
+import { CURRENCIES } from './settlement.js';
+import type { Currency } from './settlement.js';
+import type { Severity } from './severity.js';
+
+/**
+ * One payment from a ledger file, after column aliases are resolved.
+ */
+export interface LedgerEntry {
+  /** 1-based row (CSV data row, NDJSON line, or JSON array index + 1). */
+  row: number;
+  from: string;
+  to: string;
+  value: number;
+  /** The value as written, or in plain decimals when it was a JSON number. */
+  amount: string;
+  currency: Currency;
+  service?: string;
+  reputation?: number;
+  /** Epoch milliseconds, when the row has a timestamp. */
+  time?: number;
+}
+
+export interface LedgerRowError {
+  row: number;
+  message: string;
+}
+
+export type LedgerPatternName = 'value-splitting' | 'new-recipient-burst' | 'repeat-low-reputation';
+
+export interface LedgerPattern {
+  pattern: LedgerPatternName;
+  severity: Severity;
+  description: string;
+  rows: number[];
+}
+
+export interface PatternOptions {
+  /** Per-operation limits to look for splitting under (default: the audit level limits). */
+  limits?: number[];
+}
+
+// Column names accepted for each field, compared case-insensitively
+const ALIASES: Record<string, string[]> = {
+  from: ['from', 'sender', 'senderaddress'],
+  to: ['to', 'recipient', 'recipientaddress'],
+  value: ['value', 'amount'],
+  currency: ['currency'],
+  service: ['service', 'servicedescription'],
+  reputation: ['reputation', 'reputationscore'],
+  time: ['time', 'timestamp'],
+};
+
+const DEFAULT_LIMITS = [100, 1000, 5000, 10000];
+
+// A payment within this fraction below a limit counts as "just under" it
+const SPLIT_MARGIN = 0.1;
+const SPLIT_MIN_PAYMENTS = 2;
+const SPLIT_WINDOW_MS = 60 * 60 * 1000;
+
+const BURST_MIN_RECIPIENTS = 3;
+const BURST_WINDOW_MS = 10 * 60 * 1000;
+
+const LOW_REPUTATION = 0.5;
+const REPEAT_MIN_PAYMENTS = 3;
+
+/**
+ * Read rows from a file by extension: `.json` (array of objects),
+ * `.ndjson`/`.jsonl`, or `.csv` with a header row. Unparseable NDJSON lines
+ * come back with undefined data so callers can report them by row.
+ */
+export function readTable(file: string): Array<{ row: number; data: unknown }> {
+  const text = readFileSync(file, 'utf8');
+  if (/\.csv$/i.test(file)) return parseCsv(text);
+  if (/\.(ndjson|jsonl)$/i.test(file)) {
+    const rows: Array<{ row: number; data: unknown }> = [];
+    text.split(/\r?\n/).forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        rows.push({ row: i + 1, data: JSON.parse(line) });
+      } catch {
+        rows.push({ row: i + 1, data: undefined });
+      }
+    });
+    return rows;
+  }
+  const doc = JSON.parse(text);
+  if (!Array.isArray(doc)) throw new Error(`${file}: expected a JSON array`);
+  return doc.map((data, i) => ({ row: i + 1, data }));
+}
+
+/**
+ * Read a ledger of transactions (formats as for readTable). Bad rows are
+ * returned as errors, not thrown.
+ */
+export function readLedger(file: string): { entries: LedgerEntry[]; errors: LedgerRowError[] } {
+  const entries: LedgerEntry[] = [];
+  const errors: LedgerRowError[] = [];
+  for (const { row, data } of readTable(file)) {
+    const result = toEntry(row, data);
+    if (typeof result === 'string') errors.push({ row, message: result });
+    else entries.push(result);
+  }
+  return { entries, errors };
+}
+
+function toEntry(row: number, data: unknown): LedgerEntry | string {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return 'not an object';
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const field = Object.keys(ALIASES).find((f) => ALIASES[f].includes(key.toLowerCase()));
+    if (field) fields[field] = value;
+  }
+
+  if (typeof fields.from !== 'string' || !fields.from) return 'missing from';
+  if (typeof fields.to !== 'string' || !fields.to) return 'missing to';
+  const value = Number(fields.value);
+  if (fields.value === undefined || fields.value === '' || !Number.isFinite(value) || value <= 0) {
+    return `invalid value ${JSON.stringify(fields.value)}`;
+  }
+  const currency = String(fields.currency || 'USD').toUpperCase();
+  if (!CURRENCIES.includes(currency as Currency)) return `unsupported currency ${currency}`;
+
+  // String(1e21) is "1e+21"; the analysis and the table want plain decimals
+  const written = typeof fields.value === 'string' ? fields.value.trim() : '';
+  const amount = /^\d+(\.\d+)?$/.test(written) ? written : value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 });
+
+  const entry: LedgerEntry = { row, from: fields.from, to: fields.to, value, amount, currency: currency as Currency };
+  if (fields.service !== undefined && fields.service !== '') entry.service = String(fields.service);
+  if (fields.reputation !== undefined && fields.reputation !== '') {
+    const reputation = Number(fields.reputation);
+    if (!Number.isFinite(reputation) || reputation < 0 || reputation > 1) return `invalid reputation ${JSON.stringify(fields.reputation)}`;
+    entry.reputation = reputation;
+  }
+  if (fields.time !== undefined && fields.time !== '') {
+    const raw = fields.time;
+    // Numbers below 1e12 are epoch seconds
+    const time = typeof raw === 'number' || /^\d+$/.test(String(raw))
+      ? Number(raw) * (Number(raw) < 1e12 ? 1000 : 1)
+      : Date.parse(String(raw));
+    if (!Number.isFinite(time)) return `invalid timestamp ${JSON.stringify(raw)}`;
+    entry.time = time;
+  }
+  return entry;
+}
+
+/**
+ * Minimal RFC 4180 CSV: quoted fields, doubled quotes, CRLF or LF.
+ */
+function parseCsv(text: string): Array<{ row: number; data: Record<string, string> }> {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...body] = records.filter((r) => r.some((f) => f.trim()));
+  if (!header) return [];
+  const names = header.map((h) => h.trim());
+  return body.map((cells, i) => ({
+    row: i + 1,
+    data: Object.fromEntries(names.map((name, j) => [name, (cells[j] ?? '').trim()])),
+  }));
+}
+
+export interface RecipientTotal {
+  to: string;
+  count: number;
+  /** Sum of values per currency. */
+  totals: Partial<Record<Currency, number>>;
+}
+
+/**
+ * Payment count and value per recipient, largest count first.
+ */
+export function totalsByRecipient(entries: LedgerEntry[]): RecipientTotal[] {
+  return [...groupBy(entries, (e) => e.to.toLowerCase())]
+    .map(([to, group]) => {
+      const totals: Partial<Record<Currency, number>> = {};
+      for (const e of group) totals[e.currency] = round((totals[e.currency] || 0) + e.value);
+      return { to, count: group.length, totals };
+    })
+    .sort((a, b) => b.count - a.count || a.to.localeCompare(b.to));
+}
+
+/**
+ * Look for patterns no single transaction shows: splitting a payment into
+ * several just under a per-operation limit, a burst of payments to
+ * recipients the sender never paid before, and repeated payments to the same
+ * low-reputation address.
+ */
+export function findLedgerPatterns(entries: LedgerEntry[], options: PatternOptions = {}): LedgerPattern[] {
+  return [
+    ...findValueSplitting(entries, options.limits || DEFAULT_LIMITS),
+    ...findNewRecipientBursts(entries),
+    ...findRepeatLowReputation(entries),
+  ];
+}
+
+function findValueSplitting(entries: LedgerEntry[], limits: number[]): LedgerPattern[] {
+  const patterns: LedgerPattern[] = [];
+  for (const [pair, group] of groupBy(entries, (e) => `${e.from.toLowerCase()}>${e.to.toLowerCase()}|${e.currency}`)) {
+    for (const limit of limits) {
+      const under = group.filter((e) => e.value < limit && e.value >= limit * (1 - SPLIT_MARGIN));
+      const clustered = withinWindow(under, SPLIT_WINDOW_MS);
+      if (clustered.length < SPLIT_MIN_PAYMENTS) continue;
+      const total = clustered.reduce((sum, e) => sum + e.value, 0);
+      const [from, to] = pair.split('|')[0].split('>');
+      patterns.push({
+        pattern: 'value-splitting',
+        severity: 'high',
+        description: `${clustered.length} payments from ${from} to ${to} just under the ${limit} limit (total ${round(total)} ${clustered[0].currency})`,
+        rows: clustered.map((e) => e.row),
+      });
+    }
+  }
+  return patterns;
+}
+
+function findNewRecipientBursts(entries: LedgerEntry[]): LedgerPattern[] {
+  const patterns: LedgerPattern[] = [];
+  for (const [from, group] of groupBy(entries.filter((e) => e.time !== undefined), (e) => e.from.toLowerCase())) {
+    const sorted = [...group].sort((a, b) => a.time! - b.time!);
+    const seen = new Set<string>();
+    const firsts: LedgerEntry[] = [];
+    for (const e of sorted) {
+      const to = e.to.toLowerCase();
+      if (!seen.has(to)) {
+        seen.add(to);
+        firsts.push(e);
+      }
+    }
+    // Slide a window over first-time payments; report each burst once
+    let start = 0;
+    for (let end = 0; end < firsts.length; end++) {
+      while (firsts[end].time! - firsts[start].time! > BURST_WINDOW_MS) start++;
+      const burst = firsts.slice(start, end + 1);
+      const next = firsts[end + 1];
+      const grows = next !== undefined && next.time! - firsts[start].time! <= BURST_WINDOW_MS;
+      if (burst.length >= BURST_MIN_RECIPIENTS && !grows) {
+        patterns.push({
+          pattern: 'new-recipient-burst',
+          severity: 'medium',
+          description: `${from} paid ${burst.length} new recipients within ${BURST_WINDOW_MS / 60000} minutes`,
+          rows: burst.map((e) => e.row),
+        });
+        start = end + 1;
+      }
+    }
+  }
+  return patterns;
+}
+
+function findRepeatLowReputation(entries: LedgerEntry[]): LedgerPattern[] {
+  const patterns: LedgerPattern[] = [];
+  const low = entries.filter((e) => e.reputation !== undefined && e.reputation < LOW_REPUTATION);
+  for (const [to, group] of groupBy(low, (e) => e.to.toLowerCase())) {
+    if (group.length < REPEAT_MIN_PAYMENTS) continue;
+    const lowest = Math.min(...group.map((e) => e.reputation!));
+    patterns.push({
+      pattern: 'repeat-low-reputation',
+      severity: 'high',
+      description: `${group.length} payments to low-reputation address ${to} (reputation ${lowest})`,
+      rows: group.map((e) => e.row),
+    });
+  }
+  return patterns;
+}
+
+/**
+ * Largest run of entries that fits in one time window. Entries without a
+ * timestamp are treated as simultaneous.
+ */
+function withinWindow(entries: LedgerEntry[], windowMs: number): LedgerEntry[] {
+  if (entries.some((e) => e.time === undefined)) return entries;
+  const sorted = [...entries].sort((a, b) => a.time! - b.time!);
+  let best: LedgerEntry[] = [];
+  let start = 0;
+  for (let end = 0; end < sorted.length; end++) {
+    while (sorted[end].time! - sorted[start].time! > windowMs) start++;
+    if (end - start + 1 > best.length) best = sorted.slice(start, end + 1);
+  }
+  return best;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) || []), item]);
+  }
+  return groups;
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
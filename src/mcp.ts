@@ -0,0 +1,135 @@
+import { createInterface } from 'readline';
+import type { Readable, Writable } from 'stream';
+
+import { TOOL_NAME, TOOL_VERSION, buildReport, decisionOf } from './report.js';
+import type { ResultRecord } from './report.js';
+
+// Newest protocol revision first; an initialize request naming another is answered with the first
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/**
+ * A tool the server exposes. `run` returns the same result records the
+ * matching command reports with --format json.
+ */
+export interface McpTool {
+  name: string;
+  description: string;
+  /** JSON Schema of the arguments object. */
+  inputSchema: Record<string, unknown>;
+  run: (args: Record<string, unknown>) => Promise<ResultRecord[]>;
+}
+
+// JSON-RPC 2.0 error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+interface JsonRpcMessage {
+  jsonrpc?: string;
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, any>;
+}
+
+/**
+ * Serve `tools` over MCP's stdio transport: one JSON-RPC message per line on
+ * `input`, responses on `output`. Resolves when `input` ends and every
+ * request has been answered.
+ */
+export function runMcpServer(tools: McpTool[], input: Readable, output: Writable): Promise<void> {
+  const byName = new Map(tools.map((t) => [t.name, t]));
+  const send = (message: Record<string, unknown>) => output.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+  const inFlight = new Set<Promise<void>>();
+
+  const handle = async (message: JsonRpcMessage): Promise<void> => {
+    if (message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+      // Responses to requests we never send, or malformed messages
+      if (message.id !== undefined && message.method === undefined) return;
+      send({ id: message.id ?? null, error: { code: INVALID_REQUEST, message: 'Not a JSON-RPC 2.0 request' } });
+      return;
+    }
+    // Notifications (no id) get no response
+    if (message.id === undefined) return;
+    const id = message.id;
+    const params = message.params || {};
+
+    switch (message.method) {
+      case 'initialize': {
+        const requested = params.protocolVersion;
+        send({
+          id,
+          result: {
+            protocolVersion: MCP_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSIONS[0],
+            capabilities: { tools: { listChanged: false } },
+            serverInfo: { name: TOOL_NAME, version: TOOL_VERSION },
+          },
+        });
+        return;
+      }
+      case 'ping':
+        send({ id, result: {} });
+        return;
+      case 'tools/list':
+        send({ id, result: { tools: tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })) } });
+        return;
+      case 'tools/call': {
+        const tool = byName.get(params.name);
+        if (!tool) {
+          send({ id, error: { code: INVALID_PARAMS, message: `Unknown tool: ${params.name}` } });
+          return;
+        }
+        const args = params.arguments ?? {};
+        if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+          send({ id, error: { code: INVALID_PARAMS, message: 'arguments must be an object' } });
+          return;
+        }
+        send({ id, result: await callTool(tool, args) });
+        return;
+      }
+      default:
+        send({ id, error: { code: METHOD_NOT_FOUND, message: `Method not found: ${message.method}` } });
+    }
+  };
+
+  return new Promise((resolve) => {
+    const lines = createInterface({ input, crlfDelay: Infinity });
+    lines.on('line', (line) => {
+      if (!line.trim()) return;
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch (err: any) {
+        send({ id: null, error: { code: PARSE_ERROR, message: `Parse error: ${err.message}` } });
+        return;
+      }
+      const messages = Array.isArray(message) ? message : [message];
+      for (const m of messages) {
+        const task = handle(typeof m === 'object' && m !== null ? (m as JsonRpcMessage) : {}).finally(() => inFlight.delete(task));
+        inFlight.add(task);
+      }
+    });
+    lines.on('close', () => {
+      Promise.all(inFlight).then(() => resolve());
+    });
+  });
+}
+
+/**
+ * Run a tool. Failures are tool results with `isError`, as MCP asks, so the
+ * calling model sees what was wrong with its arguments.
+ */
+async function callTool(tool: McpTool, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  let records: ResultRecord[];
+  try {
+    records = await tool.run(args);
+  } catch (err: any) {
+    return { content: [{ type: 'text', text: err?.message || String(err) }], isError: true };
+  }
+  const report = { decision: decisionOf(records), ...buildReport(tool.name, records) };
+  return {
+    content: [{ type: 'text', text: JSON.stringify(report) }],
+    structuredContent: report,
+    isError: false,
+  };
+}
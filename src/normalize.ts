@@ -0,0 +1,239 @@
+/**
+ * A decoded or normalized form of scanned text. Injections hidden with
+ * encodings, invisible characters or look-alike letters show up in one of
+ * these even when the raw text looks clean.
+ */
+export interface InputVariant {
+  /** Layers applied to reach this text, outermost first, e.g. `['url', 'base64']`. */
+  layers: string[];
+  text: string;
+  /** Raw-input offset of each character of `text`, plus one past the end. */
+  offsets?: number[];
+  /** For decoded segments: the encoded text's span in the raw input, which every match maps to. */
+  span?: [number, number];
+}
+
+export const DECODING_LAYERS = ['zero-width', 'confusables', 'leetspeak', 'url', 'base64', 'hex'] as const;
+export type DecodingLayer = (typeof DECODING_LAYERS)[number];
+
+// Layers can nest (hex inside base64 inside URL-encoding) up to this depth
+const MAX_DEPTH = 3;
+const MAX_VARIANTS = 32;
+// Longer texts get no whole-text copies (each would be as large again), only their encoded segments decoded
+const MAX_WHOLE_TEXT = 256 * 1024;
+// Shortest encoded segment worth decoding, in characters
+const MIN_BASE64 = 16;
+const MIN_HEX_BYTES = 8;
+// Share of printable characters a decoded segment needs to count as text
+const MIN_PRINTABLE = 0.9;
+// Longer runs are identifiers or encoded data, not leetspeak words
+const MAX_LEET_WORD = 24;
+
+// Soft hyphen, zero-width and joiner characters, bidi controls, variation selectors, BOM
+const INVISIBLE = /[\u00AD\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFE00-\uFE0F\uFEFF]/;
+
+// Letters from other scripts (and a few Latin ones) that render like ASCII
+const CONFUSABLES: Record<string, string> = {
+  '\u0430': 'a', '\u0441': 'c', '\u0501': 'd', '\u0435': 'e', '\u04BB': 'h', '\u0456': 'i', '\u0458': 'j',
+  '\u043A': 'k', '\u04CF': 'l', '\u043E': 'o', '\u0440': 'p', '\u051B': 'q', '\u0455': 's', '\u0443': 'y',
+  '\u0445': 'x', '\u051D': 'w', '\u044C': 'b', '\u0475': 'v',
+  '\u0410': 'A', '\u0412': 'B', '\u0415': 'E', '\u041A': 'K', '\u041C': 'M', '\u041D': 'H', '\u041E': 'O',
+  '\u0420': 'P', '\u0421': 'C', '\u0422': 'T', '\u0425': 'X', '\u0406': 'I', '\u0408': 'J', '\u0405': 'S',
+  '\u03B1': 'a', '\u03B9': 'i', '\u03BA': 'k', '\u03BD': 'v', '\u03BF': 'o', '\u03C1': 'p', '\u03C4': 't',
+  '\u03C5': 'u', '\u03C7': 'x', '\u03F2': 'c', '\u03B5': 'e',
+  '\u0391': 'A', '\u0392': 'B', '\u0395': 'E', '\u0396': 'Z', '\u0397': 'H', '\u0399': 'I', '\u039A': 'K',
+  '\u039C': 'M', '\u039D': 'N', '\u039F': 'O', '\u03A1': 'P', '\u03A4': 'T', '\u03A5': 'Y', '\u03A7': 'X',
+  '\u0578': 'n', '\u0585': 'o', '\u057D': 'u', '\u0570': 'h', '\u0581': 'g', '\u0566': 'q',
+  '\u0131': 'i', '\u0251': 'a', '\u0261': 'g', '\u0269': 'i', '\u026A': 'i', '\u0299': 'b', '\u028F': 'y',
+};
+
+const LEET: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g', '@': 'a', '$': 's',
+};
+
+/**
+ * Every decoded and normalized variant of `input` that differs from it:
+ * invisible characters removed (and Unicode tag characters read as ASCII),
+ * look-alike letters folded to ASCII, leetspeak undone, and URL-encoded,
+ * base64 and hex text decoded, recursively. Above MAX_WHOLE_TEXT characters
+ * only the encoded segments are decoded.
+ */
+export function inputVariants(input: string): InputVariant[] {
+  const out: InputVariant[] = [];
+  const seen = new Set([input]);
+  const offsets = input.length <= MAX_WHOLE_TEXT ? identityOffsets(input) : undefined;
+  expand({ layers: [], text: input, offsets }, 0, out, seen);
+  return out;
+}
+
+/**
+ * Map a span of a variant's text back to the raw input.
+ */
+export function rawSpan(variant: InputVariant, start: number, end: number): [number, number] {
+  if (variant.span) return variant.span;
+  if (!variant.offsets) return [start, end];
+  return [variant.offsets[start], variant.offsets[end]];
+}
+
+/**
+ * Fold look-alike letters and accents to ASCII, so `apple` spelled in Cyrillic
+ * letters reads as `apple`.
+ */
+export function confusableSkeleton(text: string): string {
+  return [...text].map(foldChar).join('');
+}
+
+export function hasConfusable(text: string): boolean {
+  return [...text].some((ch) => ch in CONFUSABLES);
+}
+
+function expand(base: InputVariant, depth: number, out: InputVariant[], seen: Set<string>): void {
+  const add = (variant: InputVariant | undefined): InputVariant | undefined => {
+    if (!variant || seen.has(variant.text) || out.length >= MAX_VARIANTS) return undefined;
+    seen.add(variant.text);
+    out.push(variant);
+    return variant;
+  };
+
+  // Encoders emit ASCII, so decoding starts from the text without invisibles
+  const whole = base.text.length <= MAX_WHOLE_TEXT;
+  const cleaned = (whole && add(transform(base, 'zero-width', revealInvisible))) || base;
+  if (whole) {
+    const folded = add(transform(cleaned, 'confusables', foldChar)) || cleaned;
+    add(unLeet(folded));
+  }
+
+  if (depth >= MAX_DEPTH) return;
+  const url = whole ? add(decodePercent(cleaned)) : undefined;
+  if (url) expand(url, depth + 1, out, seen);
+  for (const segment of [...base64Segments(cleaned), ...hexSegments(cleaned)]) {
+    const decoded = add(segment);
+    if (decoded) expand(decoded, depth + 1, out, seen);
+  }
+}
+
+/**
+ * Apply a per-character mapping, keeping offsets into the raw input.
+ */
+function transform(base: InputVariant, layer: DecodingLayer, fn: (ch: string) => string): InputVariant | undefined {
+  let text = '';
+  const offsets: number[] = [];
+  let i = 0;
+  for (const ch of base.text) {
+    const mapped = fn(ch);
+    for (let k = 0; k < mapped.length; k++) offsets.push(base.offsets ? base.offsets[i] : 0);
+    text += mapped;
+    i += ch.length;
+  }
+  if (text === base.text) return undefined;
+  offsets.push(base.offsets ? base.offsets[base.text.length] : 0);
+  return derived(base, layer, text, offsets);
+}
+
+// Unicode tag characters (U+E0020–E007E) carry invisible ASCII; show it
+function revealInvisible(ch: string): string {
+  const code = ch.codePointAt(0)!;
+  if (code >= 0xe0020 && code <= 0xe007e) return String.fromCharCode(code - 0xe0000);
+  if ((code >= 0xe0000 && code <= 0xe007f) || INVISIBLE.test(ch)) return '';
+  return ch;
+}
+
+function foldChar(ch: string): string {
+  if (ch in CONFUSABLES) return CONFUSABLES[ch];
+  return ch.normalize('NFKC').normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+/**
+ * Read digits and symbols as letters inside short words that are mostly
+ * letters, so `1gn0r3` becomes `ignore` but `2024` and hashes stay as they are.
+ */
+function unLeet(base: InputVariant): InputVariant | undefined {
+  let text = '';
+  const offsets: number[] = [];
+  let i = 0;
+  for (const word of base.text.split(/([A-Za-z0-9@$]+)/)) {
+    const digits = word.replace(/[^0-9@$]/g, '').length;
+    const leet = /[A-Za-z]/.test(word) && digits > 0 && digits * 2 <= word.length && word.length <= MAX_LEET_WORD;
+    for (const ch of word) {
+      const mapped = leet && ch in LEET ? LEET[ch] : ch;
+      for (let k = 0; k < mapped.length; k++) offsets.push(base.offsets ? base.offsets[i] : 0);
+      text += mapped;
+      i += ch.length;
+    }
+  }
+  if (text === base.text) return undefined;
+  offsets.push(base.offsets ? base.offsets[base.text.length] : 0);
+  return derived(base, 'leetspeak', text, offsets);
+}
+
+/**
+ * Decode runs of %XX escapes in place.
+ */
+function decodePercent(base: InputVariant): InputVariant | undefined {
+  const runs = [...base.text.matchAll(/(?:%[0-9a-fA-F]{2})+/g)];
+  if (runs.reduce((n, m) => n + m[0].length / 3, 0) < 2) return undefined;
+  let text = '';
+  const offsets: number[] = [];
+  let cursor = 0;
+  const at = (i: number) => (base.offsets ? base.offsets[i] : 0);
+  for (const m of runs) {
+    for (let i = cursor; i < m.index!; i++) offsets.push(at(i));
+    text += base.text.slice(cursor, m.index!);
+    const decoded = Buffer.from(m[0].replace(/%/g, ''), 'hex').toString('utf8');
+    for (let k = 0; k < decoded.length; k++) offsets.push(at(m.index!));
+    text += decoded;
+    cursor = m.index! + m[0].length;
+  }
+  for (let i = cursor; i < base.text.length; i++) offsets.push(at(i));
+  text += base.text.slice(cursor);
+  offsets.push(at(base.text.length));
+  return derived(base, 'url', text, offsets);
+}
+
+function base64Segments(base: InputVariant): InputVariant[] {
+  const pattern = new RegExp(`[A-Za-z0-9+/_-]{${MIN_BASE64},}={0,2}`, 'g');
+  return segments(base, 'base64', pattern, (s) => Buffer.from(s.replace(/[-_]/g, (c) => (c === '-' ? '+' : '/')), 'base64'));
+}
+
+function hexSegments(base: InputVariant): InputVariant[] {
+  const pattern = new RegExp(
+    `(?:\\\\x[0-9a-fA-F]{2}){${MIN_HEX_BYTES},}|(?:[0-9a-fA-F]{2}[ :]){${MIN_HEX_BYTES - 1},}[0-9a-fA-F]{2}|(?:0x)?(?:[0-9a-fA-F]{2}){${MIN_HEX_BYTES},}`,
+    'g'
+  );
+  return segments(base, 'hex', pattern, (s) => Buffer.from(s.replace(/^0x|\\x|[ :]/g, ''), 'hex'));
+}
+
+/**
+ * Decode each match of `pattern` that turns into readable UTF-8 text.
+ */
+function segments(base: InputVariant, layer: DecodingLayer, pattern: RegExp, decode: (s: string) => Buffer): InputVariant[] {
+  const found: InputVariant[] = [];
+  for (const m of base.text.matchAll(pattern)) {
+    const text = readable(decode(m[0]));
+    if (!text) continue;
+    const span = base.span || rawSpan(base, m.index!, m.index! + m[0].length);
+    found.push({ layers: [...base.layers, layer], text, span });
+  }
+  return found;
+}
+
+function readable(bytes: Buffer): string | undefined {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return undefined;
+  }
+  if (text.length < 4) return undefined;
+  const printable = [...text].filter((ch) => /[\p{L}\p{N}\p{P}\p{S}\p{Zs}\n\r\t]/u.test(ch)).length;
+  return printable / [...text].length >= MIN_PRINTABLE ? text : undefined;
+}
+
+function derived(base: InputVariant, layer: DecodingLayer, text: string, offsets: number[]): InputVariant {
+  const layers = [...base.layers, layer];
+  return base.span ? { layers, text, span: base.span } : { layers, text, offsets };
+}
+
+function identityOffsets(text: string): number[] {
+  return Array.from({ length: text.length + 1 }, (_, i) => i);
+}
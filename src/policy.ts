@@ -0,0 +1,415 @@
+import {
+  guard,
+  redact,
+  DEFAULT_INJECTION_PATTERNS,
+  DEFAULT_REDACTION_PATTERNS,
+} from '@agntor/sdk';
+
+import type { Policy } from '@agntor/sdk';
+
+import type { Suppressor } from './baseline.js';
+import { ConfigError } from './config.js';
+import type { PatternConfig, PolicyConfig } from './config.js';
+import { inputVariants, rawSpan } from './normalize.js';
+import type { InputVariant } from './normalize.js';
+import { redactionSeverity } from './severity.js';
+import type { Severity } from './severity.js';
+import type { Masker } from './vault.js';
+
+type SdkRedactionPattern = NonNullable<Policy['redactionPatterns']>[number];
+
+export interface NamedInjectionPattern {
+  name: string;
+  pattern: RegExp;
+  severity: Severity;
+  builtin: boolean;
+  allowlist: RegExp[];
+}
+
+export interface NamedRedactionPattern {
+  name: string;
+  pattern: RegExp;
+  severity: Severity;
+  builtin: boolean;
+  replacement: string;
+  allowlist: RegExp[];
+  /** The pattern object handed to the SDK. */
+  sdk: SdkRedactionPattern;
+}
+
+/**
+ * Built-in patterns merged with the user's policy file, ready to hand to
+ * `guard()` and `redact()`.
+ */
+export interface EffectivePolicy {
+  injection: NamedInjectionPattern[];
+  redaction: NamedRedactionPattern[];
+  /** Files the policy was merged from, in load order. */
+  sources: string[];
+}
+
+export interface PatternMatch {
+  pattern: string;
+  severity: Severity;
+  /** Offset and text in the raw input; for a decoded match, the whole encoded segment. */
+  index: number;
+  text: string;
+  /** Decoding layers that revealed the match, e.g. `url > base64`; unset for the raw input. */
+  layer?: string;
+}
+
+/**
+ * A decoding layer under which guard blocked input the raw text did not.
+ */
+export interface RevealedViolation {
+  layer: string;
+  violations: string[];
+}
+
+export interface ScanOptions {
+  /** Also check decoded and normalized variants of the input (see inputVariants). */
+  normalize?: boolean;
+  /** Variants already computed for this input (see withVariants), so guard and redact decode it once. */
+  variants?: InputVariant[];
+  /** Redact only: replace secrets with this instead of the pattern's replacement text. */
+  mask?: Masker;
+}
+
+export interface GuardOutcome {
+  classification: string;
+  violation_types: string[];
+  /** Injection patterns that matched, after allowlisting. */
+  matches: PatternMatch[];
+  /** Matches hidden by the baseline or inline ignore comments. */
+  suppressed: number;
+  /** With normalize: decoding layers that revealed violations. */
+  revealed?: RevealedViolation[];
+}
+
+export interface PolicyFinding {
+  type: string;
+  span: [number, number];
+  severity: Severity;
+  /** Decoding layers that revealed the finding; unset for the raw input. */
+  layer?: string;
+}
+
+export interface RedactOutcome {
+  redacted: string;
+  findings: PolicyFinding[];
+  /** Findings hidden by the baseline or inline ignore comments (still masked). */
+  suppressed: number;
+}
+
+/**
+ * Names for the SDK's built-in injection patterns, which are bare RegExps.
+ */
+export function builtinInjectionName(index: number): string {
+  return `injection-${index + 1}`;
+}
+
+/**
+ * Merge built-in patterns with a policy config. `file` is only used in errors.
+ */
+export function buildPolicy(config: PolicyConfig = {}, file = '<policy>', sources: string[] = []): EffectivePolicy {
+  const problems: string[] = [];
+  const allowlist = config.allowlist || {};
+
+  const injection: NamedInjectionPattern[] = (DEFAULT_INJECTION_PATTERNS as RegExp[]).map((pattern, i) => ({
+    name: builtinInjectionName(i),
+    pattern,
+    severity: 'critical' as Severity,
+    builtin: true,
+    allowlist: [],
+  }));
+  for (const p of config.injection?.patterns || []) {
+    injection.push({ name: p.name, pattern: compile(p), severity: p.severity || 'critical', builtin: false, allowlist: [] });
+  }
+
+  const redaction: NamedRedactionPattern[] = (DEFAULT_REDACTION_PATTERNS as SdkRedactionPattern[]).map((sdk) => ({
+    name: sdk.type,
+    pattern: sdk.pattern,
+    severity: redactionSeverity(sdk.type),
+    builtin: true,
+    replacement: sdk.replacement || `[REDACTED:${sdk.type}]`,
+    allowlist: [],
+    sdk,
+  }));
+  for (const p of config.redaction?.patterns || []) {
+    const pattern = compile(p, 'g');
+    const replacement = p.replacement ?? `[REDACTED:${p.name}]`;
+    redaction.push({
+      name: p.name,
+      pattern,
+      severity: p.severity || redactionSeverity(p.name),
+      builtin: false,
+      replacement,
+      allowlist: [],
+      sdk: { type: p.name, pattern, replacement } as SdkRedactionPattern,
+    });
+  }
+
+  const disabledInjection = checkNames(config.injection?.disable, injection, 'injection.disable', problems);
+  const disabledRedaction = checkNames(config.redaction?.disable, redaction, 'redaction.disable', problems);
+
+  for (const [name, entries] of Object.entries(allowlist)) {
+    const targets = [...injection, ...redaction].filter((p) => p.name === name);
+    if (targets.length === 0) {
+      problems.push(`allowlist.${name}: no injection or redaction pattern is named "${name}"`);
+      continue;
+    }
+    for (const target of targets) {
+      target.allowlist = entries.map((e) => new RegExp(e));
+    }
+  }
+
+  if (problems.length > 0) throw new ConfigError(file, problems);
+
+  return {
+    injection: injection.filter((p) => !disabledInjection.has(p.name)),
+    redaction: redaction.filter((p) => !disabledRedaction.has(p.name)),
+    sources,
+  };
+}
+
+/**
+ * Run the SDK prompt-injection guard under the effective policy. Patterns
+ * whose only matches are allowlisted or suppressed are left out of the guard
+ * call. With `normalize`, each decoded variant is guarded too and blocks it
+ * reveals are merged in, tagged with their layer.
+ */
+export async function runGuard(
+  input: string,
+  policy: EffectivePolicy,
+  suppress?: Suppressor,
+  options: ScanOptions = {}
+): Promise<GuardOutcome> {
+  const outcome = await guardText(input, policy, suppress, identity(input));
+  if (!options.normalize) return outcome;
+
+  const revealed: RevealedViolation[] = [];
+  for (const variant of variantsOf(input, options)) {
+    const result = await guardText(variant.text, policy, suppress, toRaw(input, variant));
+    if (result.classification !== 'block') continue;
+    const layer = variant.layers.join(' > ');
+    const fresh = result.matches.filter((m) => !outcome.matches.some((o) => o.pattern === m.pattern && o.index === m.index));
+    const types = result.violation_types.filter((v) => !outcome.violation_types.includes(v));
+    if (outcome.classification === 'block' && fresh.length === 0 && types.length === 0) continue;
+    outcome.classification = 'block';
+    outcome.violation_types.push(...types);
+    outcome.matches.push(...fresh.map((m) => ({ ...m, layer })));
+    revealed.push({ layer, violations: result.violation_types });
+  }
+  return revealed.length > 0 ? { ...outcome, revealed } : outcome;
+}
+
+async function guardText(
+  text: string,
+  policy: EffectivePolicy,
+  suppress: Suppressor | undefined,
+  locate: (index: number, length: number) => { index: number; text: string }
+): Promise<GuardOutcome> {
+  const matches: PatternMatch[] = [];
+  const active: RegExp[] = [];
+  let suppressed = 0;
+
+  for (const p of policy.injection) {
+    const all = findMatches(p.pattern, text);
+    const reported = all.filter((m) => {
+      if (isAllowlisted(p.allowlist, m.text)) return false;
+      const raw = locate(m.index, m.text.length);
+      if (suppress?.('guard', p.name, raw.index, raw.text)) {
+        suppressed++;
+        return false;
+      }
+      return true;
+    });
+    if (all.length === 0 || reported.length > 0) active.push(p.pattern);
+    for (const m of reported) {
+      matches.push({ pattern: p.name, severity: p.severity, ...locate(m.index, m.text.length) });
+    }
+  }
+
+  const result = await guard(text, toSdkPolicy(policy, active));
+  return {
+    classification: result.classification,
+    violation_types: [...result.violation_types],
+    matches: result.classification === 'block' ? matches : [],
+    suppressed,
+  };
+}
+
+/**
+ * Every allowlist-filtered injection match, whether or not guard blocks.
+ * Used to record baselines.
+ */
+export function findInjectionMatches(input: string, policy: EffectivePolicy, options: ScanOptions = {}): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const texts = [{ text: input, locate: identity(input), layer: undefined as string | undefined }];
+  for (const v of options.normalize ? variantsOf(input, options) : []) {
+    texts.push({ text: v.text, locate: toRaw(input, v), layer: v.layers.join(' > ') });
+  }
+  for (const { text, locate, layer } of texts) {
+    for (const p of policy.injection) {
+      for (const m of findMatches(p.pattern, text)) {
+        if (isAllowlisted(p.allowlist, m.text)) continue;
+        const raw = locate(m.index, m.text.length);
+        if (matches.some((o) => o.pattern === p.name && o.index === raw.index)) continue;
+        matches.push({ pattern: p.name, severity: p.severity, ...raw, ...(layer ? { layer } : {}) });
+      }
+    }
+  }
+  return matches;
+}
+
+/**
+ * Run the SDK redactor under the effective policy, dropping allowlisted
+ * findings and attaching each finding's severity. With `normalize`, secrets
+ * found only in a decoded variant are added with their layer, and the whole
+ * encoded span is masked.
+ */
+export function runRedact(
+  input: string,
+  policy: EffectivePolicy,
+  suppress?: Suppressor,
+  options: ScanOptions = {}
+): RedactOutcome {
+  const byName = new Map<string, NamedRedactionPattern>();
+  for (const p of policy.redaction) {
+    if (!byName.has(p.name)) byName.set(p.name, p);
+  }
+
+  const raw = redactText(input, policy, byName);
+  let rebuild = raw.dropped;
+  const kept: PolicyFinding[] = [...raw.kept];
+  if (options.normalize) {
+    for (const variant of variantsOf(input, options)) {
+      const layer = variant.layers.join(' > ');
+      const found = redactText(variant.text, policy, byName);
+      for (const f of found.kept) {
+        const span = rawSpan(variant, f.span[0], f.span[1]);
+        if (kept.some((k) => span[0] < k.span[1] && span[1] > k.span[0])) continue;
+        kept.push({ ...f, span, layer });
+        rebuild = true;
+      }
+    }
+  }
+
+  let suppressed = 0;
+  const findings = kept.filter((f) => {
+    if (!suppress?.('redact', f.type, f.span[0], input.slice(f.span[0], f.span[1]))) return true;
+    suppressed++;
+    return false;
+  });
+
+  // The SDK already masked allowlisted matches and knows nothing of decoded
+  // findings, so rebuild the output from the kept spans
+  const redacted = rebuild || options.mask ? applyRedactions(input, kept, byName, options.mask) : raw.redacted;
+  return { redacted, findings, suppressed };
+}
+
+function redactText(
+  text: string,
+  policy: EffectivePolicy,
+  byName: Map<string, NamedRedactionPattern>
+): { redacted: string; kept: PolicyFinding[]; dropped: boolean } {
+  const result = redact(text, toSdkPolicy(policy));
+  let dropped = false;
+  const kept: PolicyFinding[] = [];
+  for (const f of result.findings as Array<{ type: string; span: [number, number] }>) {
+    const named = byName.get(f.type);
+    if (named && isAllowlisted(named.allowlist, text.slice(f.span[0], f.span[1]))) {
+      dropped = true;
+      continue;
+    }
+    kept.push({ type: f.type, span: f.span, severity: named?.severity || redactionSeverity(f.type) });
+  }
+  return { redacted: result.redacted, kept, dropped };
+}
+
+/**
+ * Replace each finding's span in `input` with its pattern's replacement text.
+ */
+export function applyRedactions(
+  input: string,
+  findings: PolicyFinding[],
+  byName: Map<string, NamedRedactionPattern>,
+  mask?: Masker
+): string {
+  const sorted = [...findings].sort((a, b) => a.span[0] - b.span[0]);
+  let out = '';
+  let cursor = 0;
+  for (const f of sorted) {
+    if (f.span[0] < cursor) continue; // overlapping finding, already masked
+    const replacement = mask
+      ? mask(f.type, input.slice(f.span[0], f.span[1]))
+      : byName.get(f.type)?.replacement || `[REDACTED:${f.type}]`;
+    out += input.slice(cursor, f.span[0]) + replacement;
+    cursor = f.span[1];
+  }
+  return out + input.slice(cursor);
+}
+
+export function toSdkPolicy(policy: EffectivePolicy, injection?: RegExp[]): Policy {
+  return {
+    injectionPatterns: injection || policy.injection.map((p) => p.pattern),
+    redactionPatterns: policy.redaction.map((p) => p.sdk),
+  };
+}
+
+/**
+ * `options` with the input's variants computed once, for a source that is
+ * both guarded and redacted.
+ */
+export function withVariants(input: string, options: ScanOptions): ScanOptions {
+  return options.normalize && !options.variants ? { ...options, variants: inputVariants(input) } : options;
+}
+
+function variantsOf(input: string, options: ScanOptions): InputVariant[] {
+  return options.variants ?? inputVariants(input);
+}
+
+function identity(input: string) {
+  return (index: number, length: number) => ({ index, text: input.slice(index, index + length) });
+}
+
+// Where a match in a variant sits in the raw input
+function toRaw(input: string, variant: InputVariant) {
+  return (index: number, length: number) => {
+    const [start, end] = rawSpan(variant, index, index + length);
+    return { index: start, text: input.slice(start, end) };
+  };
+}
+
+function findMatches(pattern: RegExp, input: string): Array<{ index: number; text: string }> {
+  const re = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+  const found: Array<{ index: number; text: string }> = [];
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(input)) !== null) {
+    found.push({ index: m.index, text: m[0] });
+    if (m[0].length === 0) re.lastIndex++;
+  }
+  return found;
+}
+
+function isAllowlisted(allowlist: RegExp[], text: string): boolean {
+  return allowlist.some((re) => re.test(text));
+}
+
+function compile(p: PatternConfig, extraFlags = ''): RegExp {
+  const flags = [...new Set((p.flags || '') + extraFlags)].join('');
+  return new RegExp(p.pattern, flags);
+}
+
+function checkNames(
+  names: string[] | undefined,
+  patterns: Array<{ name: string }>,
+  at: string,
+  problems: string[]
+): Set<string> {
+  const known = new Set(patterns.map((p) => p.name));
+  for (const name of names || []) {
+    if (!known.has(name)) problems.push(`${at}: unknown pattern "${name}"`);
+  }
+  return new Set(names || []);
+}
@@ -0,0 +1,635 @@
+/**
+ * Structured, versioned results for machine-readable output (--format).
+ *
+ * Every command builds a list of result records alongside its terminal output;
+ * in json/ndjson/sarif mode the records are printed instead of the chalk UI.
+ * Bump SCHEMA_VERSION whenever a field is renamed or removed.
+ */
+
+import { ExitCode, maxSeverity, meetsThreshold, redactionSeverity, riskScoreSeverity } from './severity.js';
+import type { Severity } from './severity.js';
+
+export const TOOL_NAME = 'agntor';
+export const TOOL_VERSION = '1.0.0';
+export const SCHEMA_VERSION = '1.0';
+
+export const OUTPUT_FORMATS = ['text', 'json', 'ndjson', 'sarif'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * Where in a `scan --transcript` file a record's text came from.
+ */
+export interface TranscriptLocation {
+  /** Index in the messages array (-1 for a top-level system prompt). */
+  message: number;
+  role: string;
+  /** `content`, `tool-arguments`, `tool-result` or `tool-description`. */
+  channel: string;
+  /** JSONPath of the text, e.g. `$.messages[3].content[0].text`. */
+  path: string;
+  tool?: string;
+}
+
+export interface GuardRecord {
+  kind: 'guard';
+  source?: string;
+  classification: string;
+  violations: string[];
+  /** Named policy patterns behind a block (see `agntor policy show`). */
+  matches?: PatternMatchRecord[];
+  /** Matches hidden by the baseline or `agntor-ignore` comments. */
+  suppressed?: number;
+  transcript?: TranscriptLocation;
+  /** Transcripts only: `direct`, `indirect` (tool output), `model-output` or `system`. */
+  vector?: string;
+}
+
+export interface PatternMatchRecord {
+  pattern: string;
+  severity: Severity;
+  start?: SourceLocation;
+  /** Decoding layers that revealed the match, e.g. `base64`. */
+  layer?: string;
+}
+
+export interface RedactFinding {
+  type: string;
+  severity: Severity;
+  span: [number, number];
+  start?: SourceLocation;
+  end?: SourceLocation;
+  /** Decoding layers that revealed the finding, e.g. `base64`. */
+  layer?: string;
+  /** `scan --git-history`: the secret is no longer in the file at HEAD, only in history. */
+  removed?: boolean;
+}
+
+export interface RedactRecord {
+  kind: 'redact';
+  source?: string;
+  findings: RedactFinding[];
+  redacted: string;
+  /** Findings hidden by the baseline or `agntor-ignore` comments (still masked). */
+  suppressed?: number;
+  transcript?: TranscriptLocation;
+  /** `scan --git-history`: the commit that added the lines; positions are in its version of the file. */
+  commit?: string;
+  /** `redact --output` / `--in-place`: the file the redacted text was written to. */
+  output?: string;
+}
+
+/**
+ * `agntor unredact`: placeholders put back from the vault, and hash
+ * placeholders it had no original for.
+ */
+export interface UnredactRecord {
+  kind: 'unredact';
+  source?: string;
+  restored: number;
+  unknown: string[];
+  /** The restored text. */
+  text: string;
+  output?: string;
+}
+
+export interface SsrfRecord {
+  kind: 'ssrf';
+  source?: string;
+  url: string;
+  safe: boolean;
+  reason?: string;
+  /** The check that decided the verdict (see SsrfRule). */
+  rule?: string;
+  addresses?: string[];
+  redirects?: string[];
+  note?: string;
+  /** scan only: how the URL was written, and the text it was found as. */
+  origin?: string;
+  raw?: string;
+  start?: SourceLocation;
+  transcript?: TranscriptLocation;
+}
+
+/**
+ * A link whose internationalized domain imitates an ASCII one.
+ */
+export interface HomoglyphRecord {
+  kind: 'homoglyph';
+  source?: string;
+  url: string;
+  host: string;
+  unicodeHost: string;
+  lookalike: string;
+  scripts: string[];
+  start?: SourceLocation;
+  transcript?: TranscriptLocation;
+}
+
+export interface SettlementRecord {
+  kind: 'settlement';
+  transaction: Record<string, unknown>;
+  classification: string;
+  riskScore: number;
+  riskFactors: string[];
+  reasoning: string;
+}
+
+/**
+ * A pattern across several transactions of a `settle --batch` ledger.
+ */
+export interface SettlementPatternRecord {
+  kind: 'settlement-pattern';
+  source?: string;
+  pattern: string;
+  severity: Severity;
+  description: string;
+  /** 1-based ledger rows involved. */
+  rows: number[];
+}
+
+/**
+ * A `settle --batch` ledger row that could not be read, and so was not scored.
+ */
+export interface SettlementRowRecord {
+  kind: 'settlement-row';
+  source: string;
+  row: number;
+  message: string;
+}
+
+/**
+ * A reputation store entry written or looked up by `agntor reputation`.
+ */
+export interface ReputationRecord {
+  kind: 'reputation';
+  address: string;
+  score?: number;
+  label?: string;
+  updatedAt?: string;
+  denied?: boolean;
+}
+
+export interface TicketRecord {
+  kind: 'ticket';
+  action: 'generate' | 'decode' | 'validate' | 'keygen' | 'check' | 'revoke' | 'killswitch';
+  token?: string;
+  /** Set for generate and validate; decode does not verify the signature. */
+  valid?: boolean;
+  errorCode?: string;
+  /** REVOKED or KILL_SWITCH_ACTIVE from the local revocation store. */
+  revocation?: string;
+  payload: Record<string, unknown> | null;
+  /** check only: whether the proposed operation is authorized, and why. */
+  allowed?: boolean;
+  checks?: ConstraintCheckRecord[];
+}
+
+export interface ConstraintCheckRecord {
+  constraint: string;
+  status: 'pass' | 'fail' | 'skip';
+  detail: string;
+}
+
+/**
+ * Overall scan rating from `assessRisk`; summarizes the records before it.
+ */
+export interface RiskRecord {
+  kind: 'risk';
+  source?: string;
+  level: 'Low' | 'Medium' | 'High' | 'Critical';
+  reasons: string[];
+}
+
+export interface PolicyPatternInfo {
+  name: string;
+  pattern: string;
+  flags: string;
+  severity: Severity;
+  builtin: boolean;
+  allowlist: string[];
+}
+
+export interface PolicyRecord {
+  kind: 'policy';
+  sources: string[];
+  injection: PolicyPatternInfo[];
+  redaction: PolicyPatternInfo[];
+}
+
+/**
+ * Confusion counts and scores; the scores are null when undefined (no
+ * predictions, or nothing expected).
+ */
+export interface EvalMetrics {
+  tp: number;
+  fp: number;
+  fn: number;
+  tn: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface EvalTypeMetrics extends EvalMetrics {
+  type: string;
+}
+
+/**
+ * A sample a check got wrong; `type` is unset for guard's block/pass verdict.
+ */
+export interface EvalMiss {
+  sample: string;
+  check: 'guard' | 'redact';
+  type?: string;
+  /** Guard false positives: the injection patterns that matched. */
+  patterns?: string[];
+}
+
+/**
+ * `agntor eval`: scores of one policy on a labeled dataset. With --compare,
+ * the candidate's record lists the misses it fixed and introduced.
+ */
+export interface EvalRecord {
+  kind: 'eval';
+  source: string;
+  policy: string;
+  samples: number;
+  guard: EvalMetrics;
+  violations: EvalTypeMetrics[];
+  redaction: EvalMetrics;
+  secrets: EvalTypeMetrics[];
+  falsePositives: EvalMiss[];
+  falseNegatives: EvalMiss[];
+  comparedTo?: { policy: string; fixed: EvalMiss[]; regressed: EvalMiss[] };
+}
+
+export type ResultRecord =
+  | GuardRecord
+  | RedactRecord
+  | UnredactRecord
+  | SsrfRecord
+  | HomoglyphRecord
+  | SettlementRecord
+  | SettlementPatternRecord
+  | SettlementRowRecord
+  | ReputationRecord
+  | TicketRecord
+  | RiskRecord
+  | PolicyRecord
+  | EvalRecord;
+
+export interface Report {
+  schemaVersion: string;
+  tool: { name: string; version: string };
+  command: string;
+  results: ResultRecord[];
+}
+
+export function buildReport(command: string, results: ResultRecord[]): Report {
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    tool: { name: TOOL_NAME, version: TOOL_VERSION },
+    command,
+    results,
+  };
+}
+
+/**
+ * How a record counts towards the exit code: `blocked` for hard blocks
+ * (guard block, unsafe URL, settlement block, invalid ticket or denied
+ * operation), `finding`
+ * for anything reportable that did not block.
+ */
+export interface Outcome {
+  status: 'clean' | 'finding' | 'blocked';
+  severity?: Severity;
+}
+
+export function outcomeOf(record: ResultRecord): Outcome {
+  switch (record.kind) {
+    case 'guard':
+      if (record.classification === 'block') {
+        return { status: 'blocked', severity: maxSeverity((record.matches || []).map((m) => m.severity)) || 'critical' };
+      }
+      return record.violations.length > 0 ? { status: 'finding', severity: 'medium' } : { status: 'clean' };
+    case 'redact': {
+      const severity = maxSeverity(record.findings.map((f) => f.severity));
+      return severity ? { status: 'finding', severity } : { status: 'clean' };
+    }
+    case 'unredact':
+      return record.unknown.length > 0 ? { status: 'finding', severity: 'medium' } : { status: 'clean' };
+    case 'ssrf':
+      return record.safe ? { status: 'clean' } : { status: 'blocked', severity: 'high' };
+    case 'homoglyph':
+      return { status: 'finding', severity: 'high' };
+    case 'settlement':
+      if (record.classification === 'block') return { status: 'blocked', severity: 'critical' };
+      return record.riskFactors.length > 0
+        ? { status: 'finding', severity: riskScoreSeverity(record.riskScore) }
+        : { status: 'clean' };
+    case 'settlement-pattern':
+      return { status: 'finding', severity: record.severity };
+    case 'settlement-row':
+      return { status: 'finding', severity: 'medium' };
+    case 'ticket':
+      return record.valid === false || record.allowed === false
+        ? { status: 'blocked', severity: 'high' }
+        : { status: 'clean' };
+    case 'eval':
+      return record.comparedTo && record.comparedTo.regressed.length > 0 ? { status: 'finding', severity: 'medium' } : { status: 'clean' };
+    case 'risk':
+    case 'policy':
+    case 'reputation':
+      // Summaries only; the records they describe carry the outcome
+      return { status: 'clean' };
+  }
+}
+
+/**
+ * One-word verdict for a set of results, as returned by `serve` and `mcp`:
+ * `block` when any record blocked, `flag` for findings that did not block,
+ * `pass` otherwise. Unlike the exit code, --fail-on does not apply.
+ */
+export type Decision = 'block' | 'flag' | 'pass';
+
+export function decisionOf(results: ResultRecord[]): Decision {
+  const statuses = results.map((r) => outcomeOf(r).status);
+  if (statuses.includes('blocked')) return 'block';
+  return statuses.includes('finding') ? 'flag' : 'pass';
+}
+
+/**
+ * Exit code for a set of results; outcomes below the --fail-on threshold are ignored.
+ */
+export function exitCodeFor(results: ResultRecord[], failOn: Severity): number {
+  let code: number = ExitCode.Clean;
+  for (const record of results) {
+    const outcome = outcomeOf(record);
+    if (outcome.status === 'clean' || !outcome.severity || !meetsThreshold(outcome.severity, failOn)) continue;
+    if (outcome.status === 'blocked') return ExitCode.Blocked;
+    code = ExitCode.Findings;
+  }
+  return code;
+}
+
+/**
+ * Build a redact finding with its severity filled in.
+ */
+export function redactFinding(type: string, span: [number, number], severity?: Severity): RedactFinding {
+  return { type, severity: severity || redactionSeverity(type), span };
+}
+
+/**
+ * Serialize a report in one of the machine-readable formats.
+ */
+export function renderReport(report: Report, format: Exclude<OutputFormat, 'text'>): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    case 'ndjson':
+      return report.results
+        .map((r) => JSON.stringify({ schemaVersion: report.schemaVersion, command: report.command, ...r }))
+        .join('\n');
+    case 'sarif':
+      return JSON.stringify(toSarif(report), null, 2);
+  }
+}
+
+// ─── SARIF 2.1.0 ──────────────────────────────────────────────────────────────
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+}
+
+interface SarifResult {
+  ruleId: string;
+  level: 'error' | 'warning' | 'note';
+  message: { text: string };
+  locations: Array<Record<string, unknown>>;
+}
+
+function toSarif(report: Report): Record<string, unknown> {
+  const rules = new Map<string, SarifRule>();
+  const results: SarifResult[] = [];
+
+  const addRule = (id: string, description: string) => {
+    if (!rules.has(id)) {
+      rules.set(id, { id, name: id.replace(/[^A-Za-z0-9]+/g, '_'), shortDescription: { text: description } });
+    }
+  };
+
+  for (const record of report.results) {
+    switch (record.kind) {
+      case 'guard': {
+          if (record.classification !== 'block') break;
+          const label = record.vector === 'indirect' ? 'Indirect prompt injection' : 'Prompt injection';
+          const matches = record.transcript ? [] : record.matches || [];
+          if (matches.length > 0) {
+            // One result per match, so each is annotated where it is
+            const violation = record.violations[0] || 'prompt-injection';
+            const ruleId = `guard/${violation}`;
+            addRule(ruleId, `Prompt injection: ${violation}`);
+            for (const m of matches) {
+              results.push({
+                ruleId,
+                level: 'error',
+                message: {
+                  text: `${label} detected (${record.violations.join(', ') || violation}; pattern ${m.pattern}${m.layer ? `, after ${m.layer} decoding` : ''})`,
+                },
+                locations: locations(record.source, m.start),
+              });
+            }
+            break;
+          }
+          for (const violation of record.violations) {
+            const ruleId = `guard/${violation}`;
+            addRule(ruleId, `Prompt injection: ${violation}`);
+            results.push({
+              ruleId,
+              level: 'error',
+              message: { text: `${label} detected (${violation})${at(record.transcript)}` },
+              locations: locations(record.source, undefined, undefined, record.transcript),
+            });
+          }
+          break;
+      }
+      case 'redact':
+        for (const finding of record.findings) {
+          const ruleId = `redact/${finding.type}`;
+          addRule(ruleId, `Secret or PII: ${finding.type}`);
+          results.push({
+            ruleId,
+            level: sarifLevel(finding.severity),
+            message: {
+              text:
+                `Sensitive data detected (${finding.type}, ${finding.severity}${finding.layer ? `, after ${finding.layer} decoding` : ''})${at(record.transcript)}` +
+                (record.commit ? ` in commit ${record.commit}${finding.removed ? '; removed since, but still in history' : ''}` : ''),
+            },
+            locations: locations(record.source, finding.start, finding.end, record.transcript),
+          });
+        }
+        break;
+      case 'unredact':
+        if (record.unknown.length === 0) break;
+        addRule('unredact/unknown', 'Placeholder with no original in the vault');
+        results.push({
+          ruleId: 'unredact/unknown',
+          level: 'warning',
+          message: { text: `No vault entry for ${record.unknown.join(', ')}; the text keeps these placeholders` },
+          locations: locations(record.source),
+        });
+        break;
+      case 'ssrf':
+        if (record.safe) break;
+        addRule(`ssrf/${record.rule || 'blocked'}`, `URL blocked by SSRF protection (${record.rule || 'sdk'})`);
+        results.push({
+          ruleId: `ssrf/${record.rule || 'blocked'}`,
+          level: 'error',
+          message: { text: `Unsafe URL ${record.url}${record.reason ? `: ${record.reason}` : ''}${at(record.transcript)}` },
+          locations: locations(record.source, record.start, undefined, record.transcript),
+        });
+        break;
+      case 'homoglyph':
+        addRule('url/homoglyph', 'Look-alike internationalized domain');
+        results.push({
+          ruleId: 'url/homoglyph',
+          level: 'error',
+          message: { text: `Domain ${record.unicodeHost} (${record.host}) imitates ${record.lookalike}; scripts: ${record.scripts.join(', ')}${at(record.transcript)}` },
+          locations: locations(record.source, record.start, undefined, record.transcript),
+        });
+        break;
+      case 'settlement':
+        if (record.classification !== 'block') break;
+        addRule('settlement/block', 'Settlement blocked as suspected scam');
+        results.push({
+          ruleId: 'settlement/block',
+          level: 'error',
+          message: { text: `Settlement blocked (risk ${record.riskScore}): ${record.riskFactors.join(', ') || record.reasoning}` },
+          locations: locations(),
+        });
+        break;
+      case 'settlement-pattern':
+        addRule(`settlement/${record.pattern}`, 'Suspicious pattern across settlements');
+        results.push({
+          ruleId: `settlement/${record.pattern}`,
+          level: sarifLevel(record.severity),
+          message: { text: `${record.description} (rows ${record.rows.join(', ')})` },
+          locations: locations(record.source),
+        });
+        break;
+      case 'settlement-row':
+        addRule('settlement/invalid-row', 'Ledger row that could not be scored');
+        results.push({
+          ruleId: 'settlement/invalid-row',
+          level: sarifLevel('medium'),
+          message: { text: `Row ${record.row} not scored: ${record.message}` },
+          locations: locations(record.source),
+        });
+        break;
+      case 'ticket':
+        if (record.valid === false) {
+          addRule('ticket/invalid', 'Audit ticket failed validation');
+          results.push({
+            ruleId: 'ticket/invalid',
+            level: 'error',
+            message: { text: `Audit ticket invalid: ${[record.errorCode, record.revocation].filter(Boolean).join(', ') || 'Unknown error'}` },
+            locations: locations(),
+          });
+        } else if (record.allowed === false) {
+          addRule('ticket/denied', 'Operation not authorized by the audit ticket');
+          const failed = (record.checks || []).filter((c) => c.status === 'fail');
+          results.push({
+            ruleId: 'ticket/denied',
+            level: 'error',
+            message: { text: `Operation denied: ${failed.map((c) => c.detail).join('; ')}` },
+            locations: locations(),
+          });
+        }
+        break;
+      case 'eval':
+        for (const miss of record.comparedTo?.regressed || []) {
+          addRule('eval/regression', 'Sample the candidate policy gets wrong and the current one gets right');
+          results.push({
+            ruleId: 'eval/regression',
+            level: 'warning',
+            message: { text: `Regression on sample ${miss.sample}: ${miss.check}${miss.type ? ` ${miss.type}` : ''} under ${record.policy}` },
+            locations: locations(record.source),
+          });
+        }
+        break;
+      case 'risk':
+      case 'policy':
+      case 'reputation':
+        break;
+    }
+  }
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version: TOOL_VERSION,
+            informationUri: 'https://github.com/Garinmckayl/agntor-cli',
+            rules: [...rules.values()],
+          },
+        },
+        results,
+      },
+    ],
+  };
+}
+
+function sarifLevel(severity: Severity): SarifResult['level'] {
+  if (severity === 'critical' || severity === 'high') return 'error';
+  return severity === 'medium' ? 'warning' : 'note';
+}
+
+/**
+ * SARIF locations for a result. Code scanning rejects results without one, so
+ * text from stdin or the command line gets a `stdin` or `argument` artifact,
+ * at line 1 unless the match was located. Transcript text has no line of its
+ * own, so its JSONPath is a logical location.
+ */
+function locations(
+  source?: string,
+  start?: SourceLocation,
+  end?: SourceLocation,
+  transcript?: TranscriptLocation
+): Array<Record<string, unknown>> {
+  const file = source !== undefined && !source.startsWith('<');
+  const uri = file ? source.split('\\').join('/') : (source || '<argument>').slice(1, -1);
+  if (transcript) {
+    return [
+      {
+        physicalLocation: { artifactLocation: { uri } },
+        logicalLocations: [{ fullyQualifiedName: transcript.path, kind: 'member' }],
+      },
+    ];
+  }
+  const physicalLocation: Record<string, unknown> = { artifactLocation: { uri } };
+  if (start) {
+    physicalLocation.region = {
+      startLine: start.line,
+      startColumn: start.column,
+      ...(end ? { endLine: end.line, endColumn: end.column } : {}),
+    };
+  } else if (!file) {
+    physicalLocation.region = { startLine: 1 };
+  }
+  return [{ physicalLocation }];
+}
+
+function at(transcript?: TranscriptLocation): string {
+  return transcript ? ` at ${transcript.path} (${transcript.role}, ${transcript.channel})` : '';
+}
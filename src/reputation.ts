@@ -0,0 +1,155 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+
+import { readTable } from './ledger.js';
+import { checkAddress } from './settlement.js';
+
+export const REPUTATION_FILE = '.agntorreputation';
+const REPUTATION_VERSION = 1;
+
+export interface ReputationEntry {
+  /** 0 (untrusted) to 1 (trusted), on the same scale as --reputation. */
+  score: number;
+  label?: string;
+  updatedAt: string;
+}
+
+/**
+ * Local address book, keyed by lowercase address.
+ */
+export interface ReputationStore {
+  version: number;
+  addresses: Record<string, ReputationEntry>;
+}
+
+export interface ListedAddress {
+  address: string;
+  label?: string;
+  /** File the entry came from, or `built-in`. */
+  source: string;
+}
+
+export interface AddressLists {
+  deny: Map<string, ListedAddress>;
+  allow: Map<string, ListedAddress>;
+}
+
+/**
+ * Where the recipient's reputation came from, in lookup order.
+ */
+export type ReputationSource = 'store' | 'allowlist' | 'flag' | 'unknown';
+
+export interface RecipientLookup {
+  score?: number;
+  source: ReputationSource;
+  label?: string;
+  /** Set when the recipient is denylisted; such payments always block. */
+  denied?: ListedAddress;
+}
+
+// Burn addresses that are denylisted even without a denylist file
+const BUILTIN_DENYLIST: ListedAddress[] = [
+  { address: '0x000000000000000000000000000000000000dead', label: 'burn address', source: 'built-in' },
+];
+
+export function loadReputation(file: string): ReputationStore {
+  if (!existsSync(file)) return { version: REPUTATION_VERSION, addresses: {} };
+  let doc: any;
+  try {
+    doc = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err: any) {
+    throw new Error(`Invalid reputation file ${file}: ${err.message}`);
+  }
+  if (doc?.version !== REPUTATION_VERSION || typeof doc.addresses !== 'object' || doc.addresses === null) {
+    throw new Error(`Invalid reputation file ${file}: expected version ${REPUTATION_VERSION} with an addresses map`);
+  }
+  return doc as ReputationStore;
+}
+
+export function saveReputation(file: string, store: ReputationStore): void {
+  const tmp = `${file}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(store, null, 2) + '\n');
+  renameSync(tmp, file);
+}
+
+/**
+ * Validate and record a score; returns an error message instead of throwing.
+ */
+export function setReputation(store: ReputationStore, address: string, score: number, label?: string): string | undefined {
+  if (!checkAddress(address).wellFormed) return `${address} is not a 20-byte hex address`;
+  if (!Number.isFinite(score) || score < 0 || score > 1) return `score must be between 0 and 1, got ${score}`;
+  store.addresses[address.toLowerCase()] = {
+    score,
+    ...(label ? { label } : {}),
+    updatedAt: new Date().toISOString(),
+  };
+  return undefined;
+}
+
+/**
+ * Import rows of `address, score, label` from JSON, NDJSON or CSV (see
+ * readTable). Returns the number imported and per-row errors.
+ */
+export function importReputation(store: ReputationStore, file: string): { imported: number; errors: string[] } {
+  let imported = 0;
+  const errors: string[] = [];
+  for (const { row, data } of readTable(file)) {
+    const record = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+    const address = String(record.address ?? '');
+    const score = record.score === undefined || record.score === '' ? NaN : Number(record.score);
+    const label = record.label ? String(record.label) : undefined;
+    const error = setReputation(store, address, score, label);
+    if (error) errors.push(`row ${row}: ${error}`);
+    else imported++;
+  }
+  return { imported, errors };
+}
+
+/**
+ * Read denylist and allowlist files: one address per line, optionally
+ * followed by a label; `#` starts a comment.
+ */
+export function loadAddressLists(denyFiles: string[], allowFiles: string[]): AddressLists {
+  const deny = new Map(BUILTIN_DENYLIST.map((e) => [e.address, e]));
+  const allow = new Map<string, ListedAddress>();
+  for (const [files, into] of [[denyFiles, deny], [allowFiles, allow]] as const) {
+    for (const file of files) {
+      let text: string;
+      try {
+        text = readFileSync(file, 'utf8');
+      } catch (err: any) {
+        throw new Error(`Cannot read address list ${file}: ${err.message}`);
+      }
+      text.split(/\r?\n/).forEach((raw, i) => {
+        const line = raw.replace(/#.*$/, '').trim();
+        if (!line) return;
+        const [address, ...rest] = line.split(/[\s,]+/);
+        if (!checkAddress(address).wellFormed) {
+          throw new Error(`${file}:${i + 1}: ${address} is not a 20-byte hex address`);
+        }
+        into.set(address.toLowerCase(), { address, label: rest.join(' ') || undefined, source: file });
+      });
+    }
+  }
+  return { deny, allow };
+}
+
+/**
+ * Resolve a recipient's reputation: the store, then the allowlist (trusted,
+ * score 1), then the --reputation flag. The denylist is checked separately
+ * and wins over all of them.
+ */
+export function lookupRecipient(
+  address: string,
+  store: ReputationStore,
+  lists: AddressLists,
+  fallback?: number
+): RecipientLookup {
+  const key = address.toLowerCase();
+  const denied = lists.deny.get(key);
+  const entry = store.addresses[key];
+  if (entry) return { score: entry.score, source: 'store', label: entry.label, denied };
+  const allowed = lists.allow.get(key);
+  if (allowed && !denied) return { score: 1, source: 'allowlist', label: allowed.label, denied };
+  if (fallback !== undefined) return { score: fallback, source: 'flag', denied };
+  return { source: 'unknown', denied };
+}
@@ -0,0 +1,126 @@
+import { existsSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+
+export const REVOCATION_FILE = '.agntorrevocations';
+const REVOCATION_VERSION = 1;
+
+/**
+ * A revoked ticket id (`jti`) or agent id (`sub`). Revoking an agent revokes
+ * the tickets issued to it up to that moment; tickets issued later are valid.
+ * As `iat` counts whole seconds, "up to" includes the whole second of
+ * `revokedAt`.
+ */
+export interface Revocation {
+  id: string;
+  revokedAt: string;
+  reason?: string;
+}
+
+export interface FrozenAgent {
+  agentId: string;
+  since: string;
+  reason?: string;
+}
+
+export interface RevocationStore {
+  version: number;
+  revoked: Revocation[];
+  killSwitch: FrozenAgent[];
+}
+
+/**
+ * Why a ticket that verified is still refused.
+ */
+export type RevocationCode = 'REVOKED' | 'KILL_SWITCH_ACTIVE';
+
+/**
+ * Raised when the store cannot be read or written, or is not a store.
+ */
+export class RevocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RevocationError';
+  }
+}
+
+export function emptyStore(): RevocationStore {
+  return { version: REVOCATION_VERSION, revoked: [], killSwitch: [] };
+}
+
+/**
+ * Read the store; a missing file is an empty store.
+ */
+export function loadRevocations(file: string): RevocationStore {
+  if (!existsSync(file)) return emptyStore();
+  let doc: any;
+  try {
+    doc = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err: any) {
+    throw new RevocationError(`Invalid revocation file ${file}: ${err.message}`);
+  }
+  if (doc?.version !== REVOCATION_VERSION || !Array.isArray(doc.revoked) || !Array.isArray(doc.killSwitch)) {
+    throw new RevocationError(`Invalid revocation file ${file}: expected version ${REVOCATION_VERSION} with revoked and killSwitch lists`);
+  }
+  return doc as RevocationStore;
+}
+
+/**
+ * Write via a temporary file and rename, so a crash never leaves a truncated store.
+ */
+export function saveRevocations(file: string, store: RevocationStore): void {
+  const tmp = `${file}.${process.pid}.tmp`;
+  try {
+    writeFileSync(tmp, JSON.stringify(store, null, 2) + '\n');
+    renameSync(tmp, file);
+  } catch (err: any) {
+    rmSync(tmp, { force: true });
+    throw new RevocationError(`Cannot write revocation file ${file}: ${err.message}`);
+  }
+}
+
+/**
+ * Revoke `id` as of now. An id revoked before is `renewed`: its `revokedAt`
+ * moves forward, so an agent's tickets issued since are revoked too.
+ */
+export function revoke(store: RevocationStore, id: string, reason?: string): 'added' | 'renewed' {
+  const revokedAt = new Date().toISOString();
+  const existing = store.revoked.find((r) => r.id === id);
+  if (!existing) {
+    store.revoked.push({ id, revokedAt, ...(reason ? { reason } : {}) });
+    return 'added';
+  }
+  existing.revokedAt = revokedAt;
+  if (reason) existing.reason = reason;
+  return 'renewed';
+}
+
+/**
+ * Turn an agent's kill switch on or off; returns false when nothing changed.
+ */
+export function setKillSwitch(store: RevocationStore, agentId: string, active: boolean, reason?: string): boolean {
+  const frozen = store.killSwitch.some((f) => f.agentId === agentId);
+  if (active === frozen) return false;
+  if (active) {
+    store.killSwitch.push({ agentId, since: new Date().toISOString(), ...(reason ? { reason } : {}) });
+  } else {
+    store.killSwitch = store.killSwitch.filter((f) => f.agentId !== agentId);
+  }
+  return true;
+}
+
+/**
+ * Check a ticket payload against the store. The kill switch wins over
+ * revocation since it is the more urgent state to report.
+ */
+export function revocationStatus(store: RevocationStore, payload: Record<string, any>): RevocationCode | undefined {
+  if (typeof payload.sub === 'string' && store.killSwitch.some((f) => f.agentId === payload.sub)) {
+    return 'KILL_SWITCH_ACTIVE';
+  }
+  // Compared in whole seconds, the resolution of `iat`
+  const issuedAt = typeof payload.iat === 'number' ? Math.floor(payload.iat) : undefined;
+  const revoked = store.revoked.some((r) => {
+    if (typeof payload.jti === 'string' && r.id === payload.jti) return true;
+    if (typeof payload.sub !== 'string' || r.id !== payload.sub) return false;
+    return issuedAt === undefined || issuedAt <= Math.floor(Date.parse(r.revokedAt) / 1000);
+  });
+  return revoked ? 'REVOKED' : undefined;
+}
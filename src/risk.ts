@@ -0,0 +1,66 @@
+import { outcomeOf } from './report.js';
+import type { ResultRecord } from './report.js';
+import { SEVERITIES, maxSeverity, severityRank } from './severity.js';
+import type { Severity } from './severity.js';
+
+export const RISK_LEVELS = ['Low', 'Medium', 'High', 'Critical'] as const;
+export type RiskLevel = (typeof RISK_LEVELS)[number];
+
+export interface RiskVerdict {
+  level: RiskLevel;
+  reasons: string[];
+}
+
+/**
+ * Deterministic overall rating for a scan, computed locally from the guard,
+ * redact and SSRF results so it never depends on the LLM.
+ *
+ * The level is the highest severity among all findings, raised one step when
+ * two or more independent checks fired (e.g. an injection that also carries
+ * a secret or an internal URL), since combined findings suggest a deliberate attack.
+ */
+export function assessRisk(records: ResultRecord[]): RiskVerdict {
+  const severities: Severity[] = [];
+  const categories = new Set<string>();
+  const reasons: string[] = [];
+
+  for (const record of records) {
+    const outcome = outcomeOf(record);
+    if (outcome.status === 'clean' || !outcome.severity) continue;
+    severities.push(outcome.severity);
+    categories.add(record.kind);
+
+    switch (record.kind) {
+      case 'guard':
+        reasons.push(
+          `${record.vector === 'indirect' ? 'Indirect prompt injection' : 'Prompt injection'} ${record.classification === 'block' ? 'blocked' : 'suspected'} (${record.violations.join(', ') || 'unspecified'})${record.transcript ? ` at ${record.transcript.path}` : ''} [${outcome.severity}]`
+        );
+        break;
+      case 'redact': {
+        const types = [...new Set(record.findings.map((f) => f.type))];
+        reasons.push(`${record.findings.length} secret(s) exposed: ${types.join(', ')} [${outcome.severity}]`);
+        break;
+      }
+      case 'ssrf':
+        reasons.push(`Unsafe URL ${record.url}${record.reason ? ` (${record.reason})` : ''} [${outcome.severity}]`);
+        break;
+      case 'homoglyph':
+        reasons.push(`Look-alike domain ${record.unicodeHost} imitates ${record.lookalike} [${outcome.severity}]`);
+        break;
+      default:
+        break;
+    }
+  }
+
+  const highest = maxSeverity(severities);
+  if (!highest) {
+    return { level: 'Low', reasons: ['No injection, secrets or unsafe URLs found'] };
+  }
+
+  let rank = severityRank(highest);
+  if (categories.size >= 2 && rank < SEVERITIES.length - 1) {
+    rank++;
+    reasons.push(`Multiple independent checks fired (${[...categories].join(', ')})`);
+  }
+  return { level: RISK_LEVELS[rank], reasons };
+}
@@ -0,0 +1,184 @@
+import { createServer } from 'http';
+import type { IncomingMessage, Server } from 'http';
+
+import { TOOL_VERSION, buildReport, decisionOf } from './report.js';
+import type { Decision, ResultRecord } from './report.js';
+
+export const DEFAULT_PORT = 8787;
+export const DEFAULT_HOST = '127.0.0.1';
+export const DEFAULT_MAX_BODY = 1024 * 1024;
+
+/**
+ * Raised by an endpoint for a request it cannot handle; sent back as a JSON
+ * error with `status`.
+ */
+export class RequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+/**
+ * A JSON endpoint: the parsed request body in, result records out.
+ */
+export type Endpoint = (body: Record<string, unknown>) => Promise<ResultRecord[]>;
+
+export interface ServeOptions {
+  maxBodyBytes: number;
+  /** Called after every response, for logging. */
+  onRequest?: (entry: { method: string; path: string; status: number; decision?: Decision; ms: number }) => void;
+}
+
+/**
+ * Request and decision counts, exposed on `/metrics`.
+ */
+export interface ServeMetrics {
+  requests: Map<string, number>;
+  decisions: Map<string, number>;
+  started: number;
+}
+
+/**
+ * An HTTP server for `endpoints` (POST, JSON in and out) plus `GET /health`
+ * and `GET /metrics`. Bodies over `maxBodyBytes` are refused with 413.
+ */
+export function createGuardServer(endpoints: Record<string, Endpoint>, options: ServeOptions): { server: Server; metrics: ServeMetrics } {
+  const metrics: ServeMetrics = { requests: new Map(), decisions: new Map(), started: Date.now() };
+
+  const server = createServer((req, res) => {
+    const started = Date.now();
+    const path = (req.url || '/').split('?')[0];
+    const method = req.method || 'GET';
+    const endpoint = Object.prototype.hasOwnProperty.call(endpoints, path) ? endpoints[path] : undefined;
+    const route = endpoint || path === '/health' || path === '/metrics' ? path : 'other';
+
+    const reply = (status: number, body: unknown, decision?: Decision) => {
+      count(metrics.requests, `endpoint="${route}",status="${status}"`);
+      if (decision) count(metrics.decisions, `endpoint="${route}",decision="${decision}"`);
+      if (typeof body === 'string') {
+        res.writeHead(status, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(body);
+      } else {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body) + '\n');
+      }
+      options.onRequest?.({ method, path, status, decision, ms: Date.now() - started });
+    };
+
+    if (path === '/health' || path === '/metrics') {
+      if (method !== 'GET') return reply(405, { error: `${path} accepts GET only` });
+      if (path === '/metrics') return reply(200, renderMetrics(metrics));
+      return reply(200, {
+        status: 'ok',
+        version: TOOL_VERSION,
+        uptimeSeconds: Math.floor((Date.now() - metrics.started) / 1000),
+        endpoints: Object.keys(endpoints),
+      });
+    }
+    if (!endpoint) return reply(404, { error: `No endpoint ${path}` });
+    if (method !== 'POST') return reply(405, { error: `${path} accepts POST only` });
+
+    readBody(req, options.maxBodyBytes)
+      .then(async (raw) => {
+        let body: unknown;
+        try {
+          body = JSON.parse(raw || '{}');
+        } catch (err: any) {
+          throw new RequestError(`Body is not valid JSON: ${err.message}`);
+        }
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+          throw new RequestError('Body must be a JSON object');
+        }
+        const records = await endpoint(body as Record<string, unknown>);
+        const decision = decisionOf(records);
+        reply(200, { decision, ...buildReport(path.slice(1), records) }, decision);
+      })
+      .catch((err: any) => {
+        if (err instanceof RequestError) {
+          if (err.status === 413) res.setHeader('Connection', 'close');
+          reply(err.status, { error: err.message });
+        } else {
+          reply(500, { error: err?.message || String(err) });
+        }
+      });
+  });
+
+  return { server, metrics };
+}
+
+/**
+ * A required string field of a request body.
+ */
+export function stringField(body: Record<string, unknown>, name: string): string {
+  const value = body[name];
+  if (typeof value !== 'string' || value === '') throw new RequestError(`"${name}" must be a non-empty string`);
+  return value;
+}
+
+/**
+ * Parse an optional field with a command-line parser, so the HTTP API
+ * accepts exactly what the flags do.
+ */
+export function parsedField<T>(body: Record<string, unknown>, name: string, parse: (value: string) => T): T | undefined {
+  const value = body[name];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+    throw new RequestError(`"${name}" must be a string or number`);
+  }
+  try {
+    return parse(String(value));
+  } catch (err: any) {
+    throw new RequestError(`"${name}": ${err.message}`);
+  }
+}
+
+function readBody(req: IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const declared = Number(req.headers['content-length']);
+    if (declared > limit) {
+      req.resume();
+      reject(new RequestError(`Request body over ${limit} bytes`, 413));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.removeAllListeners('data');
+        req.resume();
+        reject(new RequestError(`Request body over ${limit} bytes`, 413));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function count(counter: Map<string, number>, labels: string): void {
+  counter.set(labels, (counter.get(labels) || 0) + 1);
+}
+
+/**
+ * Prometheus text exposition format.
+ */
+function renderMetrics(metrics: ServeMetrics): string {
+  const lines = [
+    '# HELP agntor_requests_total HTTP requests by endpoint and status code.',
+    '# TYPE agntor_requests_total counter',
+    ...[...metrics.requests].map(([labels, n]) => `agntor_requests_total{${labels}} ${n}`),
+    '# HELP agntor_decisions_total Decisions by endpoint: block, flag or pass.',
+    '# TYPE agntor_decisions_total counter',
+    ...[...metrics.decisions].map(([labels, n]) => `agntor_decisions_total{${labels}} ${n}`),
+    '# HELP agntor_uptime_seconds Seconds since the server started.',
+    '# TYPE agntor_uptime_seconds gauge',
+    `agntor_uptime_seconds ${Math.floor((Date.now() - metrics.started) / 1000)}`,
+  ];
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,116 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { InvalidArgumentError } from 'commander';
+
+export const CURRENCIES = ['USD', 'USDC', 'USDT', 'DAI', 'EURC', 'ETH'] as const;
+export type Currency = (typeof CURRENCIES)[number];
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * A risk found locally, before or beside `settlementGuard`. `score` is on
+ * the SDK's 0–1 scale; a blocking factor blocks whatever the SDK decides.
+ */
+export interface LocalRiskFactor {
+  factor: string;
+  score: number;
+  blocking?: boolean;
+}
+
+export interface AddressCheck {
+  /** A 0x-prefixed 20-byte hex string. */
+  wellFormed: boolean;
+  /** Mixed-case address whose case does not match its EIP-55 checksum. */
+  checksumMismatch: boolean;
+  checksummed?: string;
+}
+
+/**
+ * EIP-55 mixed-case checksum encoding of a hex address.
+ */
+export function toChecksumAddress(address: string): string {
+  const hex = address.slice(2).toLowerCase();
+  const hash = Buffer.from(keccak_256(hex)).toString('hex');
+  let out = '0x';
+  for (let i = 0; i < hex.length; i++) {
+    out += parseInt(hash[i], 16) >= 8 ? hex[i].toUpperCase() : hex[i];
+  }
+  return out;
+}
+
+/**
+ * All-lowercase and all-uppercase addresses carry no checksum and are
+ * accepted as-is, as EIP-55 specifies.
+ */
+export function checkAddress(address: string): AddressCheck {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) return { wellFormed: false, checksumMismatch: false };
+  const checksummed = toChecksumAddress(address);
+  const body = address.slice(2);
+  const hasChecksum = body !== body.toLowerCase() && body !== body.toUpperCase();
+  return { wellFormed: true, checksumMismatch: hasChecksum && address !== checksummed, checksummed };
+}
+
+/**
+ * Commander parser for --value: a positive amount with at most 18 decimals.
+ */
+export function parseSettlementAmount(value: string): string {
+  const trimmed = value.trim();
+  if (!/^\d+(\.\d{1,18})?$/.test(trimmed) || Number(trimmed) <= 0) {
+    throw new InvalidArgumentError('Must be a positive amount, e.g. 250 or 12.50.');
+  }
+  return trimmed;
+}
+
+/**
+ * Commander parser for --reputation: a score from 0 to 1.
+ */
+export function parseReputation(value: string): number {
+  const n = Number(value);
+  if (!value.trim() || !Number.isFinite(n) || n < 0 || n > 1) {
+    throw new InvalidArgumentError('Must be a score from 0 to 1.');
+  }
+  return n;
+}
+
+/**
+ * Risk factors visible from the sender's side: malformed or mis-checksummed
+ * addresses, the zero address, and paying oneself.
+ */
+export function senderRiskFactors(from: string, to: string): LocalRiskFactor[] {
+  const factors: LocalRiskFactor[] = [];
+  const sender = checkAddress(from);
+  const recipient = checkAddress(to);
+
+  for (const [role, check, address] of [['Sender', sender, from], ['Recipient', recipient, to]] as const) {
+    if (!check.wellFormed) {
+      factors.push({ factor: `${role} address is not a 20-byte hex address`, score: 1, blocking: true });
+    } else if (check.checksumMismatch) {
+      factors.push({
+        factor: `${role} address fails its EIP-55 checksum (expected ${check.checksummed}); possible typo or tampering`,
+        score: 0.9,
+        blocking: true,
+      });
+    } else if (address.toLowerCase() === ZERO_ADDRESS) {
+      factors.push({ factor: `${role} is the zero address; funds sent there are burned`, score: 1, blocking: true });
+    }
+  }
+
+  if (sender.wellFormed && recipient.wellFormed && from.toLowerCase() === to.toLowerCase()) {
+    factors.push({ factor: 'Self-payment: sender and recipient are the same address', score: 0.6 });
+  }
+  return factors;
+}
+
+/**
+ * Combine local factors with the SDK verdict: the higher score wins, factors
+ * are listed sender-side first, and any blocking local factor blocks.
+ */
+export function mergeRisk(
+  result: { classification: string; riskScore: number; riskFactors: string[] },
+  local: LocalRiskFactor[]
+): { classification: string; riskScore: number; riskFactors: string[] } {
+  return {
+    classification: local.some((f) => f.blocking) ? 'block' : result.classification,
+    riskScore: Math.max(result.riskScore, ...local.map((f) => f.score)),
+    riskFactors: [...local.map((f) => f.factor), ...result.riskFactors],
+  };
+}
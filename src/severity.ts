@@ -0,0 +1,63 @@
+/**
+ * Severity levels and process exit codes shared by every command.
+ */
+
+export const SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+export type Severity = (typeof SEVERITIES)[number];
+
+/**
+ * Exit codes for CI gates. Findings and blocks only count when their
+ * severity meets the --fail-on threshold.
+ */
+export const ExitCode = {
+  Clean: 0,
+  Findings: 1,
+  Blocked: 2,
+  Error: 3,
+} as const;
+
+export function severityRank(severity: Severity): number {
+  return SEVERITIES.indexOf(severity);
+}
+
+export function meetsThreshold(severity: Severity, threshold: Severity): boolean {
+  return severityRank(severity) >= severityRank(threshold);
+}
+
+export function maxSeverity(severities: Severity[]): Severity | undefined {
+  let max: Severity | undefined;
+  for (const s of severities) {
+    if (!max || severityRank(s) > severityRank(max)) max = s;
+  }
+  return max;
+}
+
+// Ordered most specific first; matched against the redaction type name. Short
+// keywords must stand between non-letters, so `ip` matches `ip_address` and
+// `ipv4` but not `zip` or `recipient`
+const REDACTION_SEVERITY_RULES: Array<[RegExp, Severity]> = [
+  [/private[_-]?key|mnemonic|seed|keystore|xprv|(?<![a-z])wif(?![a-z])/i, 'critical'],
+  [/api[_-]?key|secret|token|password|credential|bearer|(?<![a-z])(?:aws|jwt)(?![a-z])/i, 'high'],
+  [/credit[_-]?card|iban|passport|(?<![a-z])ssn(?![a-z])/i, 'high'],
+  [/email|phone|address|hd[_-]?path|(?<![a-z])ip(?:v[46])?(?![a-z])/i, 'medium'],
+];
+
+/**
+ * Severity for a redaction finding type (e.g. `eth_private_key`, `email`).
+ */
+export function redactionSeverity(type: string): Severity {
+  for (const [pattern, severity] of REDACTION_SEVERITY_RULES) {
+    if (pattern.test(type)) return severity;
+  }
+  return 'low';
+}
+
+/**
+ * Severity for a settlement risk score in [0, 1], using the same bands as the risk bar.
+ */
+export function riskScoreSeverity(riskScore: number): Severity {
+  if (riskScore >= 0.9) return 'critical';
+  if (riskScore >= 0.7) return 'high';
+  if (riskScore >= 0.4) return 'medium';
+  return 'low';
+}
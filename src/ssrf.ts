@@ -0,0 +1,404 @@
+import { validateUrl } from '@agntor/sdk';
+import { promises as dns } from 'dns';
+import { readFileSync } from 'fs';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+/**
+ * The check that decided a URL's verdict.
+ */
+export type SsrfRule =
+  | 'invalid-url'
+  | 'scheme'
+  | 'denylist'
+  | 'allowlist'
+  | 'obfuscated-ip'
+  | 'private-ip'
+  | 'dns-private'
+  | 'dns-unresolved'
+  | 'redirect-limit'
+  | 'sdk'
+  | 'passed';
+
+export interface SsrfCheck {
+  url: string;
+  safe: boolean;
+  rule: SsrfRule;
+  reason?: string;
+  /** Addresses the host resolved to, when resolution ran. */
+  addresses?: string[];
+  /** Redirect targets followed, in order. */
+  redirects?: string[];
+  /** Why redirects could not be followed (the URL is still judged on its own). */
+  note?: string;
+}
+
+/**
+ * Hostname lookup, so checks can run against DNS or a fixed hosts file.
+ */
+export interface Resolver {
+  id: string;
+  resolve(host: string): Promise<string[]>;
+}
+
+export interface SsrfOptions {
+  /** Hosts that are trusted even on private addresses (see matchesHost). */
+  allowlist?: string[];
+  /** Hosts and address ranges that are always blocked. */
+  denylist?: string[];
+  /** Resolve hostnames and check the addresses; omit to skip DNS. */
+  resolver?: Resolver;
+  /** Request the URL and check each redirect hop, up to this many. */
+  maxRedirects?: number;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+// Schemes that reach past HTTP: local files, raw sockets into internal
+// services, or script. They are blocked before any other check.
+const SCHEME_RISKS: Record<string, string> = {
+  file: 'reads local files',
+  gopher: 'sends raw bytes to internal services',
+  dict: 'sends raw commands to internal services',
+  ftp: 'opens FTP connections, including to internal hosts',
+  ftps: 'opens FTP connections, including to internal hosts',
+  sftp: 'opens SSH file transfers',
+  tftp: 'sends unauthenticated UDP file requests',
+  ldap: 'queries directory services',
+  ldaps: 'queries directory services',
+  smb: 'opens Windows file shares and can leak credentials',
+  jar: 'fetches and unpacks remote archives',
+  netdoc: 'reads local files',
+  phar: 'unpacks PHP archives',
+  expect: 'runs shell commands',
+  javascript: 'runs script',
+  vbscript: 'runs script',
+  data: 'embeds arbitrary content inline',
+};
+
+export const DANGEROUS_SCHEMES = Object.keys(SCHEME_RISKS);
+
+// Ranges an agent should never be steered into, most specific first
+const BLOCKED_RANGES: Array<[string, string]> = [
+  ['169.254.169.254/32', 'cloud metadata endpoint'],
+  ['0.0.0.0/8', 'unspecified address'],
+  ['10.0.0.0/8', 'private network'],
+  ['100.64.0.0/10', 'carrier-grade NAT'],
+  ['127.0.0.0/8', 'loopback'],
+  ['169.254.0.0/16', 'link-local'],
+  ['172.16.0.0/12', 'private network'],
+  ['192.0.0.0/24', 'IETF protocol assignments'],
+  ['192.168.0.0/16', 'private network'],
+  ['198.18.0.0/15', 'benchmarking network'],
+  ['224.0.0.0/4', 'multicast'],
+  ['240.0.0.0/4', 'reserved'],
+  ['fd00:ec2::254/128', 'cloud metadata endpoint'],
+  ['::/128', 'unspecified address'],
+  ['::1/128', 'loopback'],
+  ['fc00::/7', 'unique local address'],
+  ['fe80::/10', 'link-local'],
+  ['ff00::/8', 'multicast'],
+];
+
+/**
+ * Verdict for one URL. Checks run in order and the first that decides wins:
+ * scheme, denylist, allowlist, obfuscated or private IP literals, resolved
+ * addresses, the SDK's validateUrl, then each redirect hop.
+ */
+export async function checkUrl(url: string, options: SsrfOptions = {}): Promise<SsrfCheck> {
+  return checkHop(url, options, []);
+}
+
+async function checkHop(url: string, options: SsrfOptions, redirects: string[]): Promise<SsrfCheck> {
+  const verdict = (safe: boolean, rule: SsrfRule, reason?: string, extra: Partial<SsrfCheck> = {}): SsrfCheck => ({
+    url: redirects.length > 0 ? redirects[0] : url,
+    safe,
+    rule,
+    ...(reason ? { reason: redirects.length > 0 ? `After redirect to ${url}: ${reason}` : reason } : {}),
+    ...extra,
+    ...(redirects.length > 0 ? { redirects: redirects.slice(1).concat(url) } : {}),
+  });
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return verdict(false, 'invalid-url', 'Not a valid URL');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    const risk = SCHEME_RISKS[parsed.protocol.slice(0, -1)];
+    return verdict(
+      false,
+      'scheme',
+      risk ? `Dangerous scheme ${parsed.protocol} ${risk}` : `Scheme ${parsed.protocol} is not allowed; only http and https`
+    );
+  }
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  const denied = (options.denylist || []).find((p) => matchesHost(host, p));
+  if (denied) return verdict(false, 'denylist', `Host ${host} matches denylist entry ${denied}`);
+  const allowed = (options.allowlist || []).find((p) => matchesHost(host, p));
+
+  if (!allowed) {
+    const raw = rawHost(url);
+    const obfuscation = raw ? decodeObfuscatedIp(raw) : undefined;
+    if (obfuscation) {
+      const range = classifyIp(obfuscation.ip);
+      return verdict(
+        false,
+        'obfuscated-ip',
+        `Host ${raw} is ${obfuscation.encoding} for ${obfuscation.ip}${range ? ` (${range})` : ''}`
+      );
+    }
+    if (net.isIP(host)) {
+      const range = classifyIp(host);
+      if (range) return verdict(false, 'private-ip', `${host} is a ${range} address`);
+    }
+  }
+
+  let addresses: string[] | undefined;
+  if (options.resolver && !net.isIP(host)) {
+    try {
+      addresses = await options.resolver.resolve(host);
+    } catch (err: any) {
+      return verdict(false, 'dns-unresolved', `${host} does not resolve (${options.resolver.id}): ${err.message}`);
+    }
+    if (addresses.length === 0) {
+      return verdict(false, 'dns-unresolved', `${host} does not resolve (${options.resolver.id})`);
+    }
+    const deniedAddress = addresses.find((a) => (options.denylist || []).some((p) => matchesHost(a, p)));
+    if (deniedAddress) {
+      return verdict(false, 'denylist', `${host} resolves to denylisted address ${deniedAddress}`, { addresses });
+    }
+    if (!allowed) {
+      for (const address of addresses) {
+        const range = classifyIp(address);
+        if (range) {
+          return verdict(
+            false,
+            'dns-private',
+            `${host} resolves to ${address} (${range}); a public name pointing at an internal address is a DNS rebinding pattern`,
+            { addresses }
+          );
+        }
+      }
+    }
+  }
+
+  if (!allowed) {
+    try {
+      await validateUrl(url);
+    } catch (err: any) {
+      return verdict(false, 'sdk', err.message, addresses ? { addresses } : {});
+    }
+  }
+
+  const passed = () => verdict(true, allowed ? 'allowlist' : 'passed', undefined, {
+    ...(allowed && redirects.length === 0 ? { reason: `Host ${host} matches allowlist entry ${allowed}` } : {}),
+    ...(addresses ? { addresses } : {}),
+  });
+  if (options.maxRedirects === undefined) return passed();
+
+  let location: string | undefined;
+  try {
+    location = await fetchRedirect(parsed, addresses?.[0], options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  } catch (err: any) {
+    return { ...passed(), note: `Could not request ${url}: ${err.message}` };
+  }
+  if (location === undefined) return passed();
+  const next = new URL(location, parsed).toString();
+  if (redirects.length >= options.maxRedirects) {
+    return verdict(false, 'redirect-limit', `More than ${options.maxRedirects} redirects`);
+  }
+  return checkHop(next, options, [...redirects, url]);
+}
+
+/**
+ * Request the URL once without following redirects and return the Location
+ * of a 3xx response. The connection is pinned to the address already checked
+ * so a second DNS answer cannot swap in another target.
+ */
+function fetchRedirect(url: URL, address: string | undefined, timeoutMs: number): Promise<string | undefined> {
+  const client = url.protocol === 'https:' ? https : http;
+  const lookup = address
+    ? (_host: string, opts: { all?: boolean }, cb: (...args: any[]) => void) => {
+        const family = net.isIP(address);
+        if (opts.all) cb(null, [{ address, family }]);
+        else cb(null, address, family);
+      }
+    : undefined;
+  return new Promise((resolve, reject) => {
+    const req = client.request(url, { method: 'GET', timeout: timeoutMs, ...(lookup ? { lookup } : {}) }, (res) => {
+      res.destroy();
+      const status = res.statusCode || 0;
+      resolve(status >= 300 && status < 400 && res.headers.location ? res.headers.location : undefined);
+    });
+    req.on('timeout', () => req.destroy(new Error(`timed out after ${timeoutMs} ms`)));
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/**
+ * Resolver backed by the system's DNS configuration.
+ */
+export function createSystemResolver(): Resolver {
+  return {
+    id: 'dns',
+    async resolve(host) {
+      const results = await dns.lookup(host, { all: true, verbatim: true });
+      return results.map((r) => r.address);
+    },
+  };
+}
+
+/**
+ * Resolver that answers only from an /etc/hosts-style file, for offline
+ * checks and tests. Hosts missing from the file do not resolve.
+ */
+export function createHostsResolver(file: string): Resolver {
+  const table = new Map<string, string[]>();
+  readFileSync(file, 'utf8').split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.replace(/#.*$/, '').trim();
+    if (!line) return;
+    const [address, ...names] = line.split(/\s+/);
+    if (!net.isIP(address) || names.length === 0) {
+      throw new Error(`${file}:${i + 1}: expected an IP address followed by host names`);
+    }
+    for (const name of names) {
+      const key = name.toLowerCase();
+      table.set(key, [...(table.get(key) || []), address]);
+    }
+  });
+  return {
+    id: `hosts file ${file}`,
+    async resolve(host) {
+      const addresses = table.get(host.toLowerCase());
+      if (!addresses) throw new Error('not in the hosts file');
+      return addresses;
+    },
+  };
+}
+
+/**
+ * Allowlist and denylist entries: an exact host, `*.example.com` for any
+ * subdomain, an IP address, or a CIDR range such as `10.0.0.0/8`.
+ */
+export function matchesHost(host: string, pattern: string): boolean {
+  const p = pattern.toLowerCase();
+  if (p.includes('/') || net.isIP(p)) {
+    const bytes = ipBytes(host);
+    return bytes !== undefined && inCidr(bytes, p.includes('/') ? p : `${p}/${p.includes(':') ? 128 : 32}`);
+  }
+  if (p.startsWith('*.')) return host.endsWith(p.slice(1));
+  return host === p;
+}
+
+/**
+ * Why an allowlist or denylist entry is unusable, for config validation.
+ */
+export function hostPatternError(pattern: string): string | undefined {
+  if (!pattern.includes('/')) return pattern.trim() ? undefined : 'empty host';
+  const [ip, bits] = pattern.split('/');
+  const max = net.isIP(ip) === 4 ? 32 : net.isIP(ip) === 6 ? 128 : 0;
+  if (!max) return `${ip} is not an IP address`;
+  if (!/^\d+$/.test(bits) || Number(bits) > max) return `prefix length must be 0 to ${max}`;
+  return undefined;
+}
+
+/**
+ * Name of the non-public range an address falls in, or undefined for a
+ * public address. IPv4-mapped and NAT64 IPv6 addresses are judged by the
+ * IPv4 address they carry.
+ */
+export function classifyIp(ip: string): string | undefined {
+  let bytes = ipBytes(ip);
+  if (!bytes) return undefined;
+  if (bytes.length === 16 && (inCidr(bytes, '::ffff:0:0/96') || inCidr(bytes, '64:ff9b::/96'))) {
+    bytes = bytes.slice(12);
+  }
+  return BLOCKED_RANGES.find(([cidr]) => inCidr(bytes!, cidr))?.[1];
+}
+
+/**
+ * Decode a host written as an IP in a form other than dotted decimal:
+ * integer (`2130706433`), octal (`0177.0.0.1`), hex (`0x7f.1`), shortened
+ * (`127.1`), or IPv4 inside IPv6 (`[::ffff:127.0.0.1]`). Returns undefined
+ * for hostnames and plain addresses.
+ */
+export function decodeObfuscatedIp(raw: string): { ip: string; encoding: string } | undefined {
+  if (raw.startsWith('[')) {
+    const bytes = ipBytes(raw.slice(1, -1));
+    if (!bytes || bytes.length !== 16) return undefined;
+    const v4 = bytes.slice(12).join('.');
+    if (inCidr(bytes, '::ffff:0:0/96')) return { ip: v4, encoding: 'IPv6-mapped IPv4' };
+    if (inCidr(bytes, '::/96') && !inCidr(bytes, '::/127')) return { ip: v4, encoding: 'IPv4-compatible IPv6' };
+    return undefined;
+  }
+
+  const parts = raw.replace(/\.$/, '').split('.');
+  if (parts.length > 4) return undefined;
+  const kinds = new Set<string>();
+  const values: number[] = [];
+  for (const part of parts) {
+    if (/^0x[0-9a-f]*$/i.test(part)) {
+      kinds.add('hexadecimal');
+      values.push(part.length > 2 ? parseInt(part.slice(2), 16) : 0);
+    } else if (/^0[0-7]+$/.test(part)) {
+      kinds.add('octal');
+      values.push(parseInt(part, 8));
+    } else if (/^(0|[1-9]\d*)$/.test(part)) {
+      values.push(Number(part));
+    } else {
+      return undefined;
+    }
+  }
+  const last = values[values.length - 1];
+  if (values.slice(0, -1).some((v) => v > 255) || last >= 256 ** (5 - values.length)) return undefined;
+  if (parts.length === 4 && kinds.size === 0) return undefined;
+
+  const bytes = values.slice(0, -1);
+  for (let i = 4 - values.length; i >= 0; i--) bytes.push(Math.floor(last / 256 ** i) % 256);
+  const form = parts.length === 1 ? ['integer'] : parts.length < 4 ? ['shortened'] : [];
+  return { ip: bytes.join('.'), encoding: `${[...form, ...kinds].join(' ')} notation` };
+}
+
+// Host exactly as written, before the URL parser normalizes it
+function rawHost(url: string): string | undefined {
+  return /^[a-z][a-z0-9+.-]*:\/\/(?:[^@/?#]*@)?(\[[^\]]*\]|[^:/?#]*)/i.exec(url)?.[1].toLowerCase();
+}
+
+function ipBytes(ip: string): number[] | undefined {
+  const version = net.isIP(ip);
+  if (version === 4) return ip.split('.').map(Number);
+  if (version !== 6) return undefined;
+
+  let text = ip.replace(/%.*$/, '');
+  const v4 = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (v4) {
+    const [a, b, c, d] = v4[1].split('.').map(Number);
+    text = text.slice(0, -v4[1].length) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const left = head ? head.split(':') : [];
+  const right = tail ? tail.split(':') : [];
+  const groups = tail === undefined ? left : [...left, ...Array(8 - left.length - right.length).fill('0'), ...right];
+  return groups.flatMap((g) => {
+    const n = parseInt(g, 16);
+    return [n >> 8, n & 0xff];
+  });
+}
+
+function inCidr(bytes: number[], cidr: string): boolean {
+  const [ip, bitsText] = cidr.split('/');
+  const range = ipBytes(ip);
+  if (!range || range.length !== bytes.length) return false;
+  let bits = Number(bitsText);
+  for (let i = 0; i < range.length && bits > 0; i++, bits -= 8) {
+    const mask = bits >= 8 ? 0xff : (0xff << (8 - bits)) & 0xff;
+    if ((bytes[i] & mask) !== (range[i] & mask)) return false;
+  }
+  return true;
+}
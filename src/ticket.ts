@@ -0,0 +1,184 @@
+import { InvalidArgumentError } from 'commander';
+
+import { ConfigError, isObject, readStructuredFile } from './config.js';
+import type { ConstraintCheckRecord } from './report.js';
+
+export const AUDIT_LEVELS = ['Bronze', 'Silver', 'Gold', 'Platinum'] as const;
+export type AuditLevel = (typeof AUDIT_LEVELS)[number];
+
+/**
+ * The `constraints` claim of an audit ticket.
+ */
+export interface TicketConstraints {
+  max_op_value: number;
+  allowed_mcp_servers: string[];
+  kill_switch_active: boolean;
+  max_ops_per_hour?: number;
+  requires_x402_payment: boolean;
+  /** Permission scopes such as `transfer:read`. */
+  scopes?: string[];
+}
+
+// Default per-operation value limit (USD) for each audit level
+const LEVEL_MAX_OP_VALUE: Record<AuditLevel, number> = {
+  Bronze: 100,
+  Silver: 1000,
+  Gold: 5000,
+  Platinum: 10000,
+};
+
+const DEFAULT_MAX_OPS_PER_HOUR = 100;
+
+/**
+ * Constraints implied by the audit level alone; the constraints file and
+ * flags override them.
+ */
+export function defaultConstraints(level: AuditLevel): TicketConstraints {
+  return {
+    max_op_value: LEVEL_MAX_OP_VALUE[level],
+    allowed_mcp_servers: [],
+    kill_switch_active: false,
+    max_ops_per_hour: DEFAULT_MAX_OPS_PER_HOUR,
+    requires_x402_payment: level !== 'Bronze',
+  };
+}
+
+/**
+ * Read a JSON or YAML constraints file for `ticket --generate --constraints`.
+ * Every key is optional; unknown keys are errors so typos don't go unnoticed.
+ */
+export function loadConstraintsFile(file: string): Partial<TicketConstraints> {
+  const doc = readStructuredFile(file) ?? {};
+  const problems: string[] = [];
+  validateConstraints(doc, 'constraints', problems);
+  if (problems.length > 0) throw new ConfigError(file, problems);
+  return doc as Partial<TicketConstraints>;
+}
+
+export function validateConstraints(value: unknown, at: string, problems: string[]): void {
+  if (!isObject(value)) {
+    problems.push(`${at}: must be an object`);
+    return;
+  }
+  for (const [key, v] of Object.entries(value)) {
+    switch (key) {
+      case 'max_op_value':
+        if (typeof v !== 'number' || !Number.isFinite(v) || v < 0) problems.push(`${at}.${key}: must be a number, 0 or more`);
+        break;
+      case 'max_ops_per_hour':
+        if (typeof v !== 'number' || !Number.isInteger(v) || v < 1) problems.push(`${at}.${key}: must be a positive integer`);
+        break;
+      case 'kill_switch_active':
+      case 'requires_x402_payment':
+        if (typeof v !== 'boolean') problems.push(`${at}.${key}: must be true or false`);
+        break;
+      case 'allowed_mcp_servers':
+      case 'scopes':
+        if (!Array.isArray(v) || !v.every((s) => typeof s === 'string' && s.trim())) {
+          problems.push(`${at}.${key}: must be a list of non-empty strings`);
+        }
+        break;
+      default:
+        problems.push(`${at}.${key}: unknown constraint`);
+    }
+  }
+}
+
+/**
+ * Commander parser for whole-number options such as --max-ops and --ttl.
+ */
+export function parsePositiveInt(value: string): number {
+  const n = Number(value);
+  if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(n) || n < 1) {
+    throw new InvalidArgumentError('Must be a positive whole number.');
+  }
+  return n;
+}
+
+/**
+ * Commander parser for amounts such as --max-value.
+ */
+export function parseAmount(value: string): number {
+  const n = Number(value);
+  if (!value.trim() || !Number.isFinite(n) || n < 0) {
+    throw new InvalidArgumentError('Must be a number, 0 or more.');
+  }
+  return n;
+}
+
+/**
+ * Split `--scope "a:read b:write"` and repeated --scope flags into a list.
+ */
+export function splitScopes(values: string[]): string[] {
+  return [...new Set(values.flatMap((v) => v.split(/[\s,]+/)).filter(Boolean))];
+}
+
+/**
+ * An operation an agent wants to perform, for `ticket check`.
+ */
+export interface ProposedOperation {
+  /** Value of the operation in USD. */
+  opValue?: number;
+  /** MCP servers the operation calls. */
+  mcpServers: string[];
+  /** The operation is settled with an x402 payment. */
+  payment: boolean;
+}
+
+/**
+ * Evaluate a proposed operation against a ticket's constraints. Checks whose
+ * operation parameter was not given are skipped.
+ */
+export function checkConstraints(
+  constraints: Partial<TicketConstraints> | undefined,
+  op: ProposedOperation
+): ConstraintCheckRecord[] {
+  const c = constraints || {};
+  const checks: ConstraintCheckRecord[] = [];
+
+  checks.push(
+    c.kill_switch_active
+      ? { constraint: 'kill_switch_active', status: 'fail', detail: 'Kill switch is active; the agent must not act' }
+      : { constraint: 'kill_switch_active', status: 'pass', detail: 'Kill switch is off' }
+  );
+
+  if (op.opValue === undefined) {
+    checks.push({ constraint: 'max_op_value', status: 'skip', detail: 'No --op-value given' });
+  } else if (c.max_op_value === undefined) {
+    checks.push({ constraint: 'max_op_value', status: 'pass', detail: `$${op.opValue} (no limit)` });
+  } else {
+    const ok = op.opValue <= c.max_op_value;
+    checks.push({
+      constraint: 'max_op_value',
+      status: ok ? 'pass' : 'fail',
+      detail: `$${op.opValue} ${ok ? '<=' : '>'} limit $${c.max_op_value}`,
+    });
+  }
+
+  if (op.mcpServers.length === 0) {
+    checks.push({ constraint: 'allowed_mcp_servers', status: 'skip', detail: 'No --mcp-server given' });
+  } else {
+    // An empty allowlist permits no servers
+    const allowed = new Set((c.allowed_mcp_servers || []).map((h) => h.toLowerCase()));
+    for (const server of op.mcpServers) {
+      const ok = allowed.has(server.toLowerCase());
+      checks.push({
+        constraint: 'allowed_mcp_servers',
+        status: ok ? 'pass' : 'fail',
+        detail: ok ? `${server} is allowed` : `${server} is not in the allowlist`,
+      });
+    }
+  }
+
+  if (c.requires_x402_payment && !op.payment) {
+    checks.push({ constraint: 'requires_x402_payment', status: 'fail', detail: 'Ticket requires x402 payment; the operation has none (--requires-payment)' });
+  } else {
+    checks.push({
+      constraint: 'requires_x402_payment',
+      status: 'pass',
+      detail: c.requires_x402_payment ? 'x402 payment provided' : 'Payment not required',
+    });
+  }
+
+  return checks;
+}
@@ -0,0 +1,267 @@
+import { readFileSync } from 'fs';
+
+import type { TranscriptLocation } from './report.js';
+
+export type TranscriptFormat = 'openai' | 'anthropic' | 'mcp';
+
+/**
+ * One piece of text in a transcript, scanned on its own.
+ */
+export interface TranscriptPart extends TranscriptLocation {
+  text: string;
+}
+
+/**
+ * An MCP server the transcript connects to.
+ */
+export interface McpServerRef {
+  url: string;
+  name?: string;
+  /** JSONPath of the URL in the file. */
+  path: string;
+}
+
+export interface Transcript {
+  format: TranscriptFormat;
+  /** Messages (chat) or JSON-RPC messages (MCP). */
+  messages: number;
+  parts: TranscriptPart[];
+  servers: McpServerRef[];
+}
+
+/**
+ * Where an injection came from. Text a tool returned is indirect: the agent
+ * reads it as data, but an attacker who controls the tool's source wrote it.
+ */
+export type InjectionVector = 'direct' | 'indirect' | 'model-output' | 'system';
+
+/**
+ * Read a transcript: a JSON chat (`messages` array or a bare array, OpenAI
+ * or Anthropic style) or MCP JSON-RPC messages as a JSON array or NDJSON.
+ */
+export function readTranscript(file: string): Transcript {
+  const text = readFileSync(file, 'utf8');
+  let doc: unknown;
+  if (/\.(ndjson|jsonl)$/i.test(file)) {
+    doc = text.split(/\r?\n/).filter((l) => l.trim()).map((line, i) => {
+      try {
+        return JSON.parse(line);
+      } catch (err: any) {
+        throw new Error(`line ${i + 1}: ${err.message}`);
+      }
+    });
+  } else {
+    doc = JSON.parse(text);
+  }
+  return parseTranscript(doc);
+}
+
+export function parseTranscript(doc: unknown): Transcript {
+  const root = isRecord(doc) ? doc : {};
+  const servers = findServers(root);
+
+  if (isRecord(doc) && 'jsonrpc' in doc) return parseMcp([doc], true, servers);
+  if (Array.isArray(doc) && doc.some((m) => isRecord(m) && 'jsonrpc' in m)) return parseMcp(doc, false, servers);
+
+  const messages = Array.isArray(doc) ? doc : root.messages;
+  if (!Array.isArray(messages)) {
+    throw new Error('expected a messages array, a JSON array of messages, or MCP JSON-RPC messages');
+  }
+  const base = Array.isArray(doc) ? '$' : '$.messages';
+  const parts: TranscriptPart[] = [];
+  const format: TranscriptFormat = isAnthropic(root, messages) ? 'anthropic' : 'openai';
+
+  // Anthropic keeps the system prompt beside the messages
+  if (root.system !== undefined) {
+    contentParts(root.system, '$.system', { message: -1, role: 'system', channel: 'content' }, parts, new Map());
+  }
+  const toolNames = new Map<string, string>();
+  messages.forEach((m, i) => {
+    if (!isRecord(m)) return;
+    const path = `${base}[${i}]`;
+    const role = typeof m.role === 'string' ? m.role : 'unknown';
+    if (role === 'tool' || role === 'function') {
+      const id = typeof m.tool_call_id === 'string' ? m.tool_call_id : undefined;
+      const tool = (typeof m.name === 'string' ? m.name : undefined) ?? (id ? toolNames.get(id) : undefined);
+      contentParts(m.content, `${path}.content`, { message: i, role: 'tool', channel: 'tool-result', ...(tool ? { tool } : {}) }, parts, toolNames);
+      return;
+    }
+    contentParts(m.content, `${path}.content`, { message: i, role, channel: 'content' }, parts, toolNames);
+    if (Array.isArray(m.tool_calls)) {
+      m.tool_calls.forEach((call, j) => {
+        if (!isRecord(call) || !isRecord(call.function)) return;
+        const tool = typeof call.function.name === 'string' ? call.function.name : undefined;
+        if (typeof call.id === 'string' && tool) toolNames.set(call.id, tool);
+        argumentParts(call.function.arguments, `${path}.tool_calls[${j}].function.arguments`, { message: i, role, tool }, parts);
+      });
+    }
+    if (isRecord(m.function_call)) {
+      const tool = typeof m.function_call.name === 'string' ? m.function_call.name : undefined;
+      argumentParts(m.function_call.arguments, `${path}.function_call.arguments`, { message: i, role, tool }, parts);
+    }
+  });
+  return { format, messages: messages.length, parts, servers };
+}
+
+/**
+ * Injection vector for a part, from its role and channel.
+ */
+export function injectionVector(part: TranscriptLocation): InjectionVector {
+  if (part.channel === 'tool-result' || part.channel === 'tool-description') return 'indirect';
+  if (part.role === 'user') return 'direct';
+  if (part.role === 'system' || part.role === 'developer') return 'system';
+  return 'model-output';
+}
+
+function parseMcp(messages: unknown[], single: boolean, servers: McpServerRef[]): Transcript {
+  const parts: TranscriptPart[] = [];
+  const calls = new Map<unknown, { method: string; tool?: string }>();
+  messages.forEach((m, i) => {
+    if (!isRecord(m)) return;
+    const path = single ? '$' : `$[${i}]`;
+    const params = isRecord(m.params) ? m.params : {};
+
+    if (typeof m.method === 'string') {
+      const tool = typeof params.name === 'string' ? params.name : undefined;
+      if (m.id !== undefined) calls.set(m.id, { method: m.method, tool });
+      if (m.method === 'tools/call') {
+        argumentParts(params.arguments, `${path}.params.arguments`, { message: i, role: 'assistant', tool }, parts);
+      }
+      return;
+    }
+
+    if (!isRecord(m.result)) return;
+    const call = calls.get(m.id);
+    const result = m.result;
+    if (Array.isArray(result.tools)) {
+      // tools/list: descriptions are read by the model and can carry injections
+      result.tools.forEach((t, j) => {
+        if (!isRecord(t) || typeof t.description !== 'string') return;
+        parts.push({
+          message: i,
+          role: 'tool',
+          channel: 'tool-description',
+          path: `${path}.result.tools[${j}].description`,
+          ...(typeof t.name === 'string' ? { tool: t.name } : {}),
+          text: t.description,
+        });
+      });
+    }
+    const location = { message: i, role: 'tool', channel: 'tool-result', ...(call?.tool ? { tool: call.tool } : {}) };
+    if (result.content !== undefined) contentParts(result.content, `${path}.result.content`, location, parts, new Map());
+    if (Array.isArray(result.contents)) contentParts(result.contents, `${path}.result.contents`, location, parts, new Map());
+    if (result.structuredContent !== undefined) {
+      stringLeaves(result.structuredContent, `${path}.result.structuredContent`, (text, at) => parts.push({ ...location, path: at, text }));
+    }
+  });
+  return { format: 'mcp', messages: messages.length, parts, servers };
+}
+
+/**
+ * Text of a message's content: a string, or an array of blocks (`text`,
+ * Anthropic `tool_use` and `tool_result`, MCP resource contents).
+ */
+function contentParts(
+  content: unknown,
+  path: string,
+  location: Omit<TranscriptLocation, 'path'>,
+  parts: TranscriptPart[],
+  toolNames: Map<string, string>
+): void {
+  if (typeof content === 'string') {
+    if (content) parts.push({ ...location, path, text: content });
+    return;
+  }
+  if (!Array.isArray(content)) return;
+  content.forEach((block, k) => {
+    const at = `${path}[${k}]`;
+    if (typeof block === 'string') {
+      if (block) parts.push({ ...location, path: at, text: block });
+      return;
+    }
+    if (!isRecord(block)) return;
+    if (block.type === 'tool_use' || block.type === 'mcp_tool_use') {
+      const tool = typeof block.name === 'string' ? block.name : undefined;
+      if (typeof block.id === 'string' && tool) toolNames.set(block.id, tool);
+      argumentParts(block.input, `${at}.input`, { message: location.message, role: location.role, tool }, parts);
+    } else if (block.type === 'tool_result' || block.type === 'mcp_tool_result') {
+      const id = typeof block.tool_use_id === 'string' ? block.tool_use_id : undefined;
+      const tool = id ? toolNames.get(id) : undefined;
+      contentParts(block.content, `${at}.content`, { message: location.message, role: 'tool', channel: 'tool-result', ...(tool ? { tool } : {}) }, parts, toolNames);
+    } else if (typeof block.text === 'string') {
+      if (block.text) parts.push({ ...location, path: `${at}.text`, text: block.text });
+    } else if (isRecord(block.resource) && typeof block.resource.text === 'string') {
+      parts.push({ ...location, path: `${at}.resource.text`, text: block.resource.text });
+    }
+  });
+}
+
+/**
+ * Tool-call arguments: an object, or (OpenAI) a JSON string of one. Each
+ * string value is scanned separately under its own path.
+ */
+function argumentParts(
+  args: unknown,
+  path: string,
+  location: { message: number; role: string; tool?: string },
+  parts: TranscriptPart[]
+): void {
+  let value = args;
+  if (typeof args === 'string') {
+    try {
+      value = JSON.parse(args);
+    } catch {
+      value = args;
+    }
+  }
+  const base = { message: location.message, role: location.role, channel: 'tool-arguments', ...(location.tool ? { tool: location.tool } : {}) };
+  stringLeaves(value, path, (text, at) => parts.push({ ...base, path: at, text }));
+}
+
+function stringLeaves(value: unknown, path: string, visit: (text: string, path: string) => void): void {
+  if (typeof value === 'string') {
+    if (value) visit(value, path);
+  } else if (Array.isArray(value)) {
+    value.forEach((v, i) => stringLeaves(v, `${path}[${i}]`, visit));
+  } else if (isRecord(value)) {
+    for (const [key, v] of Object.entries(value)) stringLeaves(v, childPath(path, key), visit);
+  }
+}
+
+/**
+ * MCP server URLs declared beside the messages: Anthropic `mcp_servers`,
+ * OpenAI `tools` of type `mcp`, or an `mcpServers` map as in client configs.
+ */
+function findServers(root: Record<string, unknown>): McpServerRef[] {
+  const servers: McpServerRef[] = [];
+  const add = (url: unknown, name: unknown, path: string) => {
+    if (typeof url === 'string' && url) servers.push({ url, path, ...(typeof name === 'string' ? { name } : {}) });
+  };
+  if (Array.isArray(root.mcp_servers)) {
+    root.mcp_servers.forEach((s, i) => isRecord(s) && add(s.url, s.name, `$.mcp_servers[${i}].url`));
+  }
+  if (Array.isArray(root.tools)) {
+    root.tools.forEach((t, i) => isRecord(t) && t.type === 'mcp' && add(t.server_url, t.server_label, `$.tools[${i}].server_url`));
+  }
+  if (isRecord(root.mcpServers)) {
+    for (const [name, s] of Object.entries(root.mcpServers)) {
+      if (isRecord(s)) add(s.url, name, `${childPath('$.mcpServers', name)}.url`);
+    }
+  }
+  return servers;
+}
+
+function isAnthropic(root: Record<string, unknown>, messages: unknown[]): boolean {
+  if (root.system !== undefined || root.mcp_servers !== undefined) return true;
+  return messages.some(
+    (m) => isRecord(m) && Array.isArray(m.content) && m.content.some((b) => isRecord(b) && (b.type === 'tool_use' || b.type === 'tool_result'))
+  );
+}
+
+function childPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,8 +1,31 @@
 import chalk from 'chalk';
 import boxen from 'boxen';
+import ora from 'ora';
+import type { Ora } from 'ora';
+
+import type { Explanation } from './copilot.js';
+import type { EvalMetrics, EvalMiss, EvalRecord, EvalTypeMetrics, PolicyPatternInfo, PolicyRecord, SsrfRecord, TranscriptLocation } from './report.js';
 
 const MAX_WIDTH = 75;
 
+let textOutput = true;
+
+/**
+ * Enable or disable the terminal UI. Machine-readable formats turn it off so
+ * stdout carries only the structured report; errors still go to stderr.
+ */
+export function setTextOutput(enabled: boolean): void {
+  textOutput = enabled;
+}
+
+export function isTextOutput(): boolean {
+  return textOutput;
+}
+
+function log(...args: unknown[]): void {
+  if (textOutput) console.log(...args);
+}
+
 function wrapText(text: string, width: number): string {
   return text
     .split('\n')
@@ -57,100 +80,178 @@ export function printBanner(): void {
       borderColor: 'red',
     }
   );
-  console.log(banner);
+  log(banner);
 }
 
-export function printCopilotStatus(available: boolean): void {
+export function printExplainerStatus(label: string, available: boolean, setupHint?: string): void {
   if (available) {
-    console.log(
+    log(
       chalk.dim('   ') +
-        chalk.green(`${ICONS.check} GitHub Copilot CLI detected`) +
+        chalk.green(`${ICONS.check} ${label} detected`) +
         chalk.dim(' \u2014 AI-powered explanations enabled ') +
         chalk.green(ICONS.brain)
     );
   } else {
-    console.log(
+    log(
       chalk.dim('   ') +
-        chalk.yellow(`${ICONS.warning} GitHub Copilot CLI not found`) +
+        chalk.yellow(`${ICONS.warning} ${label} not available`) +
         chalk.dim(' \u2014 scan results only, no AI explanations')
     );
-    console.log(
-      chalk.dim('     Install: ') +
-        chalk.cyan('gh extension install github/gh-copilot')
-    );
+    if (setupHint) {
+      log(
+        chalk.dim('     Setup: ') +
+          chalk.cyan(setupHint)
+      );
+    }
   }
-  console.log();
+  log();
 }
 
 export function printSectionHeader(icon: string, title: string, subtitle?: string): void {
-  console.log(
+  log(
     chalk.bold.white(`   ${icon} ${title}`) +
       (subtitle ? chalk.dim(` \u2014 ${subtitle}`) : '')
   );
-  console.log();
+  log();
 }
 
 export function printGuardResult(
   classification: string,
   violations: string[],
-  input: string
+  input: string,
+  matchedPatterns: string[] = [],
+  revealed: Array<{ layer: string; violations: string[] }> = []
 ): void {
   const isBlocked = classification === 'block';
   const icon = isBlocked ? ICONS.block : ICONS.pass;
   const color = isBlocked ? chalk.red : chalk.green;
   const label = isBlocked ? 'BLOCKED' : 'PASS';
 
-  console.log(
+  log(
     chalk.dim('   ') +
       color.bold(`${icon} ${label}`) +
       chalk.dim(` \u2014 Prompt Injection Scan`)
   );
-  console.log();
+  log();
 
   if (isBlocked && violations.length > 0) {
-    console.log(chalk.dim('   Violations detected:'));
+    log(chalk.dim('   Violations detected:'));
     for (const v of violations) {
-      console.log(chalk.red(`     ${ICONS.cross} ${v}`));
+      log(chalk.red(`     ${ICONS.cross} ${v}`));
+    }
+    log();
+  }
+
+  if (isBlocked && matchedPatterns.length > 0) {
+    log(chalk.dim('   Matched patterns: ') + chalk.white(matchedPatterns.join(', ')));
+    log();
+  }
+
+  if (revealed.length > 0) {
+    log(chalk.dim('   Hidden by encoding or obfuscation; revealed after decoding:'));
+    for (const r of revealed) {
+      log(chalk.red(`     ${ICONS.mag} ${r.layer}`) + chalk.dim(` \u2014 ${r.violations.join(', ')}`));
     }
-    console.log();
+    log();
   }
 
   // Show truncated input
   const preview = input.length > 80 ? input.substring(0, 80) + '...' : input;
-  console.log(chalk.dim('   Input: ') + chalk.white(`"${preview}"`));
-  console.log();
+  log(chalk.dim('   Input: ') + chalk.white(`"${preview}"`));
+  log();
 }
 
 export function printRedactResult(
   redacted: string,
-  findings: Array<{ type: string; span: [number, number] }>
+  findings: Array<{ type: string; span: [number, number]; layer?: string }>
 ): void {
   const count = findings.length;
   const icon = count > 0 ? ICONS.key : ICONS.pass;
   const color = count > 0 ? chalk.yellow : chalk.green;
 
-  console.log(
+  log(
     chalk.dim('   ') +
       color.bold(`${icon} ${count} secret(s) found`) +
       chalk.dim(' \u2014 Redaction Scan')
   );
-  console.log();
+  log();
 
   if (count > 0) {
-    // Group by type
+    // Group by type, and by the decoding layer that revealed it
     const types: Record<string, number> = {};
     for (const f of findings) {
-      types[f.type] = (types[f.type] || 0) + 1;
+      const key = f.layer ? `${f.type} (decoded: ${f.layer})` : f.type;
+      types[key] = (types[key] || 0) + 1;
     }
     for (const [type, num] of Object.entries(types)) {
-      console.log(chalk.yellow(`     ${ICONS.warning} ${type}`) + chalk.dim(` (${num}x)`));
+      log(chalk.yellow(`     ${ICONS.warning} ${type}`) + chalk.dim(` (${num}x)`));
     }
-    console.log();
-    console.log(chalk.dim('   Redacted output:'));
+    log();
+    log(chalk.dim('   Redacted output:'));
     const preview = redacted.length > 200 ? redacted.substring(0, 200) + '...' : redacted;
-    console.log(chalk.white(`     ${preview}`));
-    console.log();
+    log(chalk.white(`     ${preview}`));
+    log();
+  }
+}
+
+/**
+ * Result of `agntor unredact` for one input; `text` is shown when it was not
+ * written to a file.
+ */
+export function printUnredactResult(restored: number, unknown: string[], text?: string): void {
+  const icon = unknown.length > 0 ? ICONS.warning : ICONS.pass;
+  const color = unknown.length > 0 ? chalk.yellow : chalk.green;
+  log(chalk.dim('   ') + color.bold(`${icon} ${restored} placeholder(s) restored`) + chalk.dim(' \u2014 Vault'));
+  log();
+  for (const placeholder of unknown) {
+    log(chalk.yellow(`     ${ICONS.warning} No vault entry for ${placeholder}`));
+  }
+  if (unknown.length > 0) log();
+  if (text !== undefined) {
+    log(chalk.dim('   Restored output:'));
+    for (const line of text.replace(/\n$/, '').split('\n')) log(chalk.white(`     ${line}`));
+    log();
+  }
+}
+
+export function printSourceHeader(label: string): void {
+  log(chalk.bold.white(`   ${ICONS.mag} ${label}`));
+  log();
+}
+
+export function printFindingLocations(
+  label: string,
+  findings: Array<{ type: string; line: number; column: number }>
+): void {
+  if (findings.length === 0) return;
+  log(chalk.dim('   Locations:'));
+  for (const f of findings) {
+    log(
+      chalk.white(`     ${label}:${f.line}:${f.column}`) + chalk.dim(' \u2014 ') + chalk.yellow(f.type)
+    );
+  }
+  log();
+}
+
+/**
+ * scan --git-history findings, grouped by the commit that added them.
+ */
+export function printHistoryFindings(
+  findings: Array<{ commit: string; date: string; subject: string; path: string; line: number; column: number; type: string; removed: boolean }>
+): void {
+  let commit: string | undefined;
+  for (const f of findings) {
+    if (f.commit !== commit) {
+      if (commit) log();
+      commit = f.commit;
+      log(chalk.bold.white(`   ${f.commit.slice(0, 10)}`) + chalk.dim(` ${f.date.slice(0, 10)} ${f.subject}`));
+    }
+    log(
+      chalk.white(`     ${f.path}:${f.line}:${f.column}`) + chalk.dim(' \u2014 ') + chalk.yellow(f.type) +
+        (f.removed ? chalk.red(' (removed since; still in history)') : chalk.dim(' (still present)'))
+    );
   }
+  if (commit) log();
 }
 
 export function printSettlementResult(
@@ -164,10 +265,10 @@ export function printSettlementResult(
   const color = isBlocked ? chalk.red : chalk.green;
   const label = isBlocked ? 'BLOCKED \u2014 Suspected Scam' : 'PASS \u2014 Transaction Appears Safe';
 
-  console.log(
+  log(
     chalk.dim('   ') + color.bold(`${icon} ${label}`)
   );
-  console.log();
+  log();
 
   // Risk score bar
   const barWidth = 30;
@@ -175,18 +276,75 @@ export function printSettlementResult(
   const empty = barWidth - filled;
   const barColor = riskScore >= 0.7 ? chalk.red : riskScore >= 0.4 ? chalk.yellow : chalk.green;
   const bar = barColor('\u2588'.repeat(filled)) + chalk.dim('\u2591'.repeat(empty));
-  console.log(
+  log(
     chalk.dim('   Risk Score: ') + bar + chalk.dim(` ${(riskScore * 100).toFixed(0)}%`)
   );
-  console.log();
+  log();
 
   if (riskFactors.length > 0) {
-    console.log(chalk.dim('   Risk Factors:'));
+    log(chalk.dim('   Risk Factors:'));
     for (const f of riskFactors) {
-      console.log(chalk.red(`     ${ICONS.warning} ${f}`));
+      log(chalk.red(`     ${ICONS.warning} ${f}`));
+    }
+    log();
+  }
+}
+
+export function printSettlementBatch(
+  rows: Array<{ row: number; to: string; amount: string; currency: string; classification: string; riskScore: number; riskFactors: string[] }>
+): void {
+  log(chalk.dim(`   ${'Row'.padEnd(5)} ${'Recipient'.padEnd(44)} ${'Value'.padStart(14)}  Risk  Result`));
+  for (const r of rows) {
+    const blocked = r.classification === 'block';
+    const risk = `${(r.riskScore * 100).toFixed(0)}%`.padStart(4);
+    log(
+      `   ${String(r.row).padEnd(5)} ${chalk.white(r.to.padEnd(44))} ${`${r.amount} ${r.currency}`.padStart(14)}  ` +
+        (r.riskScore >= 0.7 ? chalk.red(risk) : r.riskScore >= 0.4 ? chalk.yellow(risk) : chalk.green(risk)) +
+        '  ' + (blocked ? chalk.red.bold('BLOCK') : chalk.green('pass'))
+    );
+    if (blocked) {
+      for (const f of r.riskFactors) log(chalk.red(`         ${ICONS.warning} ${f}`));
     }
-    console.log();
   }
+  log();
+}
+
+export function printSettlementSummary(summary: {
+  total: number;
+  blocked: number;
+  skipped: number;
+  highest?: { row: number; to: string; riskScore: number };
+  recipients: Array<{ to: string; count: number; totals: Record<string, number | undefined> }>;
+}): void {
+  log(chalk.dim('   Summary:'));
+  log(chalk.dim('     Transactions:    ') + chalk.white(String(summary.total)) +
+    (summary.skipped > 0 ? chalk.yellow(` (${summary.skipped} invalid rows skipped, reported as findings)`) : ''));
+  log(chalk.dim('     Blocked:         ') + (summary.blocked > 0 ? chalk.red.bold(String(summary.blocked)) : chalk.green('0')));
+  if (summary.highest) {
+    log(chalk.dim('     Highest risk:    ') + chalk.white(`${(summary.highest.riskScore * 100).toFixed(0)}% (row ${summary.highest.row}, ${summary.highest.to})`));
+  }
+  log();
+  log(chalk.dim('   Totals by recipient:'));
+  for (const r of summary.recipients.slice(0, 10)) {
+    const totals = Object.entries(r.totals).map(([currency, sum]) => `${sum} ${currency}`).join(', ');
+    log(`     ${chalk.white(r.to.padEnd(44))} ${chalk.dim(`${r.count}x`.padStart(5))}  ${totals}`);
+  }
+  if (summary.recipients.length > 10) log(chalk.dim(`     ... and ${summary.recipients.length - 10} more`));
+  log();
+}
+
+export function printLedgerPatterns(patterns: Array<{ pattern: string; severity: string; description: string; rows: number[] }>): void {
+  if (patterns.length === 0) {
+    log(chalk.green(`   ${ICONS.check} No cross-transaction patterns found`));
+    log();
+    return;
+  }
+  log(chalk.dim('   Cross-transaction patterns:'));
+  for (const p of patterns) {
+    log(chalk.red(`     ${ICONS.warning} ${p.pattern}`) + severityColor(p.severity)(` [${p.severity}] `) + chalk.white(p.description));
+    log(chalk.dim(`        rows ${p.rows.join(', ')}`));
+  }
+  log();
 }
 
 export function printTicketResult(
@@ -198,10 +356,10 @@ export function printTicketResult(
   const color = valid ? chalk.green : chalk.red;
   const label = valid ? 'VALID' : `INVALID \u2014 ${errorCode || 'Unknown error'}`;
 
-  console.log(
+  log(
     chalk.dim('   ') + color.bold(`${icon} ${label}`) + chalk.dim(' \u2014 Audit Ticket')
   );
-  console.log();
+  log();
 
   if (payload) {
     const level = payload.audit_level || 'Unknown';
@@ -210,15 +368,15 @@ export function printTicketResult(
       : level === 'Silver' ? chalk.white
       : chalk.dim;
 
-    console.log(chalk.dim('   Agent:       ') + chalk.white(payload.sub || 'N/A'));
-    console.log(chalk.dim('   Audit Level: ') + levelColor.bold(level));
-    console.log(chalk.dim('   Issuer:      ') + chalk.white(payload.iss || 'N/A'));
+    log(chalk.dim('   Agent:       ') + chalk.white(payload.sub || 'N/A'));
+    log(chalk.dim('   Audit Level: ') + levelColor.bold(level));
+    log(chalk.dim('   Issuer:      ') + chalk.white(payload.iss || 'N/A'));
 
     if (payload.exp) {
       const expDate = new Date(payload.exp * 1000);
       const now = new Date();
       const expired = expDate < now;
-      console.log(
+      log(
         chalk.dim('   Expires:     ') +
           (expired ? chalk.red(`${expDate.toISOString()} (EXPIRED)`) : chalk.green(expDate.toISOString()))
       );
@@ -226,43 +384,350 @@ export function printTicketResult(
 
     if (payload.constraints) {
       const c = payload.constraints;
-      console.log();
-      console.log(chalk.dim('   Constraints:'));
-      console.log(chalk.dim('     Max op value:    ') + chalk.white(`$${c.max_op_value || 'unlimited'}`));
-      console.log(chalk.dim('     Kill switch:     ') +
+      log();
+      log(chalk.dim('   Constraints:'));
+      log(chalk.dim('     Max op value:    ') + chalk.white(`$${c.max_op_value || 'unlimited'}`));
+      log(chalk.dim('     Kill switch:     ') +
         (c.kill_switch_active ? chalk.red.bold('ACTIVE \u2014 Agent is frozen') : chalk.green('inactive'))
       );
       if (c.allowed_mcp_servers?.length > 0) {
-        console.log(chalk.dim('     MCP allowlist:   ') + chalk.white(c.allowed_mcp_servers.join(', ')));
+        log(chalk.dim('     MCP allowlist:   ') + chalk.white(c.allowed_mcp_servers.join(', ')));
+      }
+      if (c.scopes?.length > 0) {
+        log(chalk.dim('     Scopes:          ') + chalk.white(c.scopes.join(' ')));
       }
       if (c.max_ops_per_hour) {
-        console.log(chalk.dim('     Rate limit:      ') + chalk.white(`${c.max_ops_per_hour}/hr`));
+        log(chalk.dim('     Rate limit:      ') + chalk.white(`${c.max_ops_per_hour}/hr`));
       }
       if (c.requires_x402_payment) {
-        console.log(chalk.dim('     x402 required:   ') + chalk.yellow('yes'));
+        log(chalk.dim('     x402 required:   ') + chalk.yellow('yes'));
       }
     }
-    console.log();
+    log();
   }
 }
 
-export function printSsrfResult(url: string, safe: boolean, reason?: string): void {
-  const icon = safe ? ICONS.globe : ICONS.block;
-  const color = safe ? chalk.green : chalk.red;
-  const label = safe ? 'SAFE' : 'BLOCKED';
+export function printTicketToken(token: string): void {
+  log(chalk.dim('   Token:'));
+  // Split long JWT for display
+  const parts = token.split('.');
+  log(chalk.red(`     ${parts[0]}.`));
+  log(chalk.yellow(`     ${parts[1]}.`));
+  log(chalk.cyan(`     ${parts[2]}`));
+  log();
+}
+
+export function printTicketUsage(): void {
+  printInfo('Use --generate, --decode <token>, or --validate <token>');
+  log();
+  log(chalk.dim('   Examples:'));
+  log(chalk.cyan('     agntor ticket keygen --alg ES256'));
+  log(chalk.cyan('     agntor ticket --generate --key-file agntor-ticket.key.pem --level Gold --agent my-agent'));
+  log(chalk.cyan('     agntor ticket --decode eyJhbG...'));
+  log(chalk.cyan('     agntor ticket --validate eyJhbG... --key-file agntor-ticket.jwks.json'));
+}
+
+export function printConstraintChecks(
+  checks: Array<{ constraint: string; status: 'pass' | 'fail' | 'skip'; detail: string }>,
+  allowed: boolean
+): void {
+  log(chalk.dim('   Authorization checks:'));
+  for (const check of checks) {
+    const mark = check.status === 'pass' ? chalk.green(ICONS.check)
+      : check.status === 'fail' ? chalk.red(ICONS.cross)
+      : chalk.dim('-');
+    const name = check.constraint.padEnd(22);
+    log(`     ${mark} ${check.status === 'skip' ? chalk.dim(name) : chalk.white(name)} ${chalk.dim(check.detail)}`);
+  }
+  log();
+  log(
+    allowed
+      ? chalk.green.bold(`   ${ICONS.pass} ALLOWED`) + chalk.dim(' \u2014 the ticket authorizes this operation')
+      : chalk.red.bold(`   ${ICONS.block} DENIED`) + chalk.dim(' \u2014 the ticket does not authorize this operation')
+  );
+  log();
+}
+
+export function printStoreUpdate(file: string, message: string): void {
+  log(chalk.green.bold(`   ${ICONS.check} ${message}`));
+  log(chalk.dim(`   Store: ${file}`));
+  log();
+}
+
+export function printTicketKey(source: string, algorithm: string): void {
+  log(chalk.dim('   Key:         ') + chalk.white(`${source} (${algorithm})`));
+  log();
+}
+
+export function printServeStart(url: string, endpoints: string[], maxBodyBytes: number): void {
+  log(chalk.green.bold(`   ${ICONS.check} Listening on ${url}`));
+  log(chalk.dim('   Endpoints:   ') + chalk.white(endpoints.join(', ')));
+  log(chalk.dim('   Max body:    ') + chalk.white(`${maxBodyBytes} bytes`));
+  log(chalk.dim('   Stop with Ctrl+C'));
+  log();
+}
+
+export function printServeRequest(entry: { method: string; path: string; status: number; decision?: string; ms: number }): void {
+  const status = entry.status >= 500 ? chalk.red(String(entry.status))
+    : entry.status >= 400 ? chalk.yellow(String(entry.status))
+    : chalk.green(String(entry.status));
+  const decision = entry.decision === 'block' ? chalk.red.bold(' block')
+    : entry.decision === 'flag' ? chalk.yellow(' flag')
+    : entry.decision ? chalk.green(' pass') : '';
+  log(chalk.dim(`   ${new Date().toISOString()} `) + `${entry.method} ${entry.path} ` + status + decision + chalk.dim(` ${entry.ms}ms`));
+}
 
-  console.log(
+export function printKeygenResult(result: {
+  alg: string;
+  kid: string;
+  privateKeyFile: string;
+  publicKeyFile: string;
+  jwksFile: string;
+}): void {
+  log(chalk.green.bold(`   ${ICONS.key} Generated ${result.alg} keypair`) + chalk.dim(` (kid ${result.kid})`));
+  log();
+  log(chalk.dim('   Private key: ') + chalk.white(result.privateKeyFile) + chalk.dim('  keep secret; signs tickets'));
+  log(chalk.dim('   Public key:  ') + chalk.white(result.publicKeyFile));
+  log(chalk.dim('   JWKS:        ') + chalk.white(result.jwksFile) + chalk.dim('  share with verifiers'));
+  log();
+}
+
+export function printTransactionDetails(
+  from: string,
+  meta: { recipientAddress: string; amount: string; currency: string; serviceDescription?: string; reputationScore?: number },
+  reputationSource?: string
+): void {
+  log(chalk.dim('   From:       ') + chalk.white(from));
+  log(chalk.dim('   To:         ') + chalk.white(meta.recipientAddress));
+  log(chalk.dim('   Value:      ') + chalk.white(meta.currency === 'USD' ? `$${meta.amount} USD` : `${meta.amount} ${meta.currency}`));
+  log(chalk.dim('   Service:    ') + chalk.white(meta.serviceDescription || 'N/A'));
+  log(
+    chalk.dim('   Reputation: ') +
+      chalk.white(meta.reputationScore === undefined ? 'unknown' : String(meta.reputationScore)) +
+      (reputationSource ? chalk.dim(` (${reputationSource})`) : '')
+  );
+  log();
+}
+
+export function printReputation(
+  address: string,
+  score: number | undefined,
+  source: string,
+  denied?: { label?: string; source: string }
+): void {
+  log(chalk.dim('   Address:    ') + chalk.white(address));
+  log(chalk.dim('   Reputation: ') + chalk.white(score === undefined ? 'unknown' : String(score)) + chalk.dim(` (${source})`));
+  if (denied) {
+    log(chalk.dim('   Denylist:   ') + chalk.red.bold(`listed${denied.label ? ` (${denied.label})` : ''}`) + chalk.dim(` [${denied.source}]`));
+  }
+  log();
+}
+
+export function printPolicy(policy: PolicyRecord): void {
+  log(
+    chalk.dim('   Sources: ') +
+      chalk.white(policy.sources.length > 0 ? policy.sources.join(', ') : 'built-in defaults')
+  );
+  log();
+
+  const section = (title: string, patterns: PolicyPatternInfo[]) => {
+    log(chalk.bold.white(`   ${title}`) + chalk.dim(` (${patterns.length})`));
+    for (const p of patterns) {
+      const origin = p.builtin ? chalk.dim('built-in') : chalk.cyan('custom');
+      log(
+        chalk.white(`     ${p.name}`) + chalk.dim(' \u2014 ') + severityColor(p.severity)(p.severity) +
+          chalk.dim(', ') + origin
+      );
+      log(chalk.dim(`       /${p.pattern}/${p.flags}`));
+      if (p.allowlist.length > 0) {
+        log(chalk.dim('       allowlist: ') + chalk.green(p.allowlist.join(', ')));
+      }
+    }
+    log();
+  };
+
+  section('Injection patterns', policy.injection);
+  section('Redaction patterns', policy.redaction);
+}
+
+// Misses listed per kind before the rest are summarized
+const MAX_MISSES = 20;
+
+/**
+ * Scores of one policy from `agntor eval`: confusion counts, precision,
+ * recall and F1 overall and per type, then the misses.
+ */
+export function printEvalResult(record: EvalRecord): void {
+  log(chalk.dim('   Policy: ') + chalk.white(record.policy) + chalk.dim(`  \u2022  ${record.samples} sample(s)`));
+  log();
+  const header = ['TP', 'FP', 'FN', 'TN'].map((h) => h.padStart(5)).join(' ') + '  ' + ['Prec.', 'Rec.', 'F1'].map((h) => h.padStart(5)).join(' ');
+  log(chalk.dim(`   ${''.padEnd(30)} ${header}`));
+  const row = (label: string, m: EvalMetrics, bold = false) => {
+    const counts = [m.tp, m.fp, m.fn, m.tn].map((n) => String(n).padStart(5)).join(' ');
+    log(`   ${(bold ? chalk.bold.white : chalk.white)(label.padEnd(30))} ${counts}  ${score(m.precision)} ${score(m.recall)} ${score(m.f1)}`);
+  };
+  row('Guard (injection vs benign)', record.guard, true);
+  for (const t of record.violations) row(`  ${t.type}`, t);
+  row('Redaction (all types)', record.redaction, true);
+  for (const t of record.secrets) row(`  ${t.type}`, t);
+  log();
+
+  printMisses('False positives', record.falsePositives);
+  printMisses('False negatives', record.falseNegatives);
+}
+
+/**
+ * Two policies side by side, with the samples the candidate fixed and broke.
+ */
+export function printEvalComparison(before: EvalRecord, after: EvalRecord): void {
+  log(chalk.dim('   Current:   ') + chalk.white(before.policy));
+  log(chalk.dim('   Candidate: ') + chalk.white(after.policy));
+  log();
+  log(chalk.dim(`   ${'F1'.padEnd(30)} Current  Candidate   Change`));
+  const row = (label: string, a: EvalMetrics | undefined, b: EvalMetrics | undefined, bold = false) => {
+    const x = a?.f1 ?? null;
+    const y = b?.f1 ?? null;
+    const delta = x !== null && y !== null ? y - x : null;
+    const change = delta === null || Math.abs(delta) < 0.0005
+      ? chalk.dim('     \u2014')
+      : (delta > 0 ? chalk.green : chalk.red)(`${delta > 0 ? '+' : ''}${delta.toFixed(3)}`.padStart(6));
+    log(`   ${(bold ? chalk.bold.white : chalk.white)(label.padEnd(30))}   ${score(x)}      ${score(y)}   ${change}`);
+  };
+  const byType = (a: EvalTypeMetrics[], b: EvalTypeMetrics[]) =>
+    [...new Set([...a, ...b].map((t) => t.type))].sort().forEach((type) => {
+      row(`  ${type}`, a.find((t) => t.type === type), b.find((t) => t.type === type));
+    });
+  row('Guard (injection vs benign)', before.guard, after.guard, true);
+  byType(before.violations, after.violations);
+  row('Redaction (all types)', before.redaction, after.redaction, true);
+  byType(before.secrets, after.secrets);
+  log();
+
+  const fixed = after.comparedTo?.fixed || [];
+  const regressed = after.comparedTo?.regressed || [];
+  if (fixed.length === 0 && regressed.length === 0) {
+    log(chalk.dim(`   ${ICONS.check} Both policies get the same samples right`));
+    log();
+    return;
+  }
+  printMisses('Fixed by the candidate', fixed, chalk.green);
+  printMisses('Regressed by the candidate', regressed, chalk.red);
+}
+
+function printMisses(title: string, misses: EvalMiss[], color: chalk.Chalk = chalk.yellow): void {
+  if (misses.length === 0) return;
+  log(chalk.dim(`   ${title} (${misses.length}):`));
+  for (const m of misses.slice(0, MAX_MISSES)) {
+    const what = m.type ? `${m.check} ${m.type}` : m.check;
+    log(color(`     ${m.sample}`) + chalk.dim(` \u2014 ${what}`) + (m.patterns ? chalk.dim(` (${m.patterns.join(', ')})`) : ''));
+  }
+  if (misses.length > MAX_MISSES) log(chalk.dim(`     ... and ${misses.length - MAX_MISSES} more (see --format json)`));
+  log();
+}
+
+function score(value: number | null): string {
+  return value === null ? '    \u2014' : value.toFixed(3).padStart(5);
+}
+
+function severityColor(severity: string): chalk.Chalk {
+  if (severity === 'critical') return chalk.red.bold;
+  if (severity === 'high') return chalk.red;
+  if (severity === 'medium') return chalk.yellow;
+  return chalk.dim;
+}
+
+export function printSsrfResult(check: Omit<SsrfRecord, 'kind' | 'source'>): void {
+  const icon = check.safe ? ICONS.globe : ICONS.block;
+  const color = check.safe ? chalk.green : chalk.red;
+  const label = check.safe ? 'SAFE' : 'BLOCKED';
+
+  log(
     chalk.dim('   ') + color.bold(`${icon} ${label}`) +
+      chalk.dim(' \u2014 ') + chalk.white(check.url) +
+      (check.rule ? chalk.dim(` [${check.rule}]`) : '')
+  );
+  if (check.origin && check.origin !== 'plain') {
+    const raw = check.raw && check.raw !== check.url ? `: ${JSON.stringify(check.raw).slice(0, 80)}` : '';
+    log(chalk.dim(`     Found as ${check.origin} link${raw}`));
+  }
+  for (const hop of check.redirects || []) {
+    log(chalk.dim(`     \u21B3 ${hop}`));
+  }
+  if (check.addresses) {
+    log(chalk.dim(`     Resolves to ${check.addresses.join(', ')}`));
+  }
+  if (check.reason) {
+    log((check.safe ? chalk.dim : chalk.red)(`     ${check.reason}`));
+  }
+  if (check.note) {
+    log(chalk.yellow(`     ${check.note}`));
+  }
+}
+
+export function printHomoglyph(url: string, unicodeHost: string, lookalike: string, scripts: string[]): void {
+  log(
+    chalk.dim('   ') + chalk.red.bold(`${ICONS.warning} LOOK-ALIKE DOMAIN`) +
       chalk.dim(' \u2014 ') + chalk.white(url)
   );
-  if (!safe && reason) {
-    console.log(chalk.red(`     ${reason}`));
+  log(chalk.red(`     ${unicodeHost} imitates ${lookalike} (scripts: ${scripts.join(', ')})`));
+}
+
+export function printTranscriptSummary(format: string, messages: number, parts: number, servers: number): void {
+  log(
+    chalk.dim('   Format: ') + chalk.white(format) +
+      chalk.dim(`  \u2022  ${messages} message(s), ${parts} text part(s)`) +
+      (servers > 0 ? chalk.dim(`, ${servers} MCP server(s)`) : '')
+  );
+  log();
+}
+
+/**
+ * Findings for one part of a transcript, under its message index, role and JSONPath.
+ */
+export function printTranscriptPart(
+  at: TranscriptLocation,
+  findings: Array<{ blocked: boolean; text: string }>
+): void {
+  const where = at.message >= 0 ? `#${at.message}` : 'top-level';
+  const channel = at.channel === 'content' ? '' : ` ${at.channel}`;
+  log(
+    chalk.bold.white(`   ${where} ${at.role}${channel}`) +
+      (at.tool ? chalk.cyan(` (${at.tool})`) : '') +
+      chalk.dim(`  ${at.path}`)
+  );
+  for (const f of findings) {
+    log(f.blocked ? chalk.red(`     ${ICONS.cross} ${f.text}`) : chalk.yellow(`     ${ICONS.warning} ${f.text}`));
+  }
+  log();
+}
+
+export function printRiskVerdict(level: string, reasons: string[]): void {
+  const color = level === 'Critical' ? chalk.red.bold
+    : level === 'High' ? chalk.red
+    : level === 'Medium' ? chalk.yellow
+    : chalk.green;
+  const icon = level === 'Critical' ? ICONS.skull
+    : level === 'High' ? ICONS.fire
+    : level === 'Medium' ? ICONS.warning
+    : ICONS.pass;
+
+  log(chalk.dim('   ') + color(`${icon} Overall Risk: ${level.toUpperCase()}`));
+  for (const r of reasons) {
+    log(chalk.dim(`     \u2022 ${r}`));
   }
+  log();
 }
 
-export function printExplanation(title: string, explanation: string): void {
-  if (!explanation) return;
-  const box = boxen(wrapText(explanation, MAX_WIDTH - 6), {
+export function printExplanation(title: string, explanation: Explanation): void {
+  if (explanation.hijacked) {
+    log(
+      '   ' + chalk.yellow.bold(`${ICONS.warning}  ${title} replaced:`) +
+        chalk.yellow(' the explanation itself looked like a prompt injection; showing the offline one') +
+        chalk.dim(` (${explanation.violations.join(', ')})`)
+    );
+  }
+  if (!explanation.text) return;
+  const box = boxen(wrapText(explanation.text, MAX_WIDTH - 6), {
     title: chalk.cyan.bold(`${ICONS.brain} ${title}`),
     titleAlignment: 'left',
     padding: { top: 0, bottom: 0, left: 1, right: 1 },
@@ -270,7 +735,16 @@ export function printExplanation(title: string, explanation: string): void {
     borderStyle: 'round',
     borderColor: 'cyan',
   });
-  console.log(box);
+  log(box);
+}
+
+/**
+ * Sources covered by a shared explanation in multi-file runs.
+ */
+export function printExplanationScope(labels: string[]): void {
+  const shown = labels.slice(0, 5).join(', ');
+  const more = labels.length > 5 ? ` and ${labels.length - 5} more` : '';
+  log(chalk.dim(`   Applies to ${shown}${more}`));
 }
 
 export function printFullScanHeader(input: string): void {
@@ -285,25 +759,37 @@ export function printFullScanHeader(input: string): void {
       borderColor: 'red',
     }
   );
-  console.log(box);
+  log(box);
+}
+
+export function startSpinner(text: string): Ora {
+  return ora({ text, indent: 3, isSilent: !textOutput }).start();
+}
+
+export function printNewline(): void {
+  log();
 }
 
 export function printDivider(): void {
-  console.log(chalk.dim('   ' + '\u2500'.repeat(60)));
-  console.log();
+  log(chalk.dim('   ' + '\u2500'.repeat(60)));
+  log();
 }
 
 export function printFooter(): void {
-  console.log(
+  log(
     chalk.dim('   Powered by @agntor/sdk + GitHub Copilot CLI')
   );
-  console.log();
+  log();
 }
 
 export function printInfo(message: string): void {
-  console.log(chalk.dim(`   ${ICONS.check} ${message}`));
+  log(chalk.dim(`   ${ICONS.check} ${message}`));
+}
+
+export function printWarning(message: string): void {
+  log(chalk.yellow(`   ${ICONS.warning} ${message}`));
 }
 
 export function printError(message: string): void {
-  console.log(chalk.red(`   ${ICONS.cross} ${message}`));
+  console.error(chalk.red(`   ${ICONS.cross} ${message}`));
 }
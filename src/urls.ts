@@ -0,0 +1,211 @@
+import { domainToUnicode } from 'url';
+
+import { confusableSkeleton, hasConfusable } from './normalize.js';
+import { DANGEROUS_SCHEMES } from './ssrf.js';
+
+/**
+ * How a URL was written in the input.
+ */
+export type UrlOrigin = 'plain' | 'markdown' | 'html' | 'scheme-less' | 'split';
+
+export interface ExtractedUrl {
+  /** Normalized URL, as passed to the SSRF checks. */
+  url: string;
+  /** The text as it appeared in the input. */
+  raw: string;
+  /** Offset of `raw` in the input. */
+  index: number;
+  origin: UrlOrigin;
+}
+
+/**
+ * An internationalized domain whose letters imitate an ASCII one.
+ */
+export interface HomoglyphDomain {
+  /** Host as the URL parser encodes it (punycode). */
+  host: string;
+  unicodeHost: string;
+  /** The ASCII domain it looks like. */
+  lookalike: string;
+  /** Scripts mixed in the host's letters, e.g. Latin and Cyrillic. */
+  scripts: string[];
+}
+
+const SCHEMES = ['https', 'http', ...DANGEROUS_SCHEMES];
+
+// Schemes whose URLs need no `//`; any other scheme is only recognized with one
+const OPAQUE_SCHEMES = new Set(['file', 'javascript', 'vbscript', 'data', 'jar']);
+
+const SCHEME_PATTERN = new RegExp(`(?<![\\w.+-])(${SCHEMES.join('|')}):`, 'gi');
+const URL_CHARS = /[^\s"'<>`]*/y;
+// A data: URL carries markup, so only whitespace or a quote ends it
+const DATA_URL_CHARS = /[^\s"'`]*/y;
+// The host is followed by neither a call (`//console.log(`) nor more name
+const SCHEMELESS_PATTERN =
+  /(?<=^|[\s"'(<=[])[\\/]{2}(\d{1,3}(?:\.\d{1,3}){3}|(?:[a-z0-9-]+\.)+([a-z]{2,})|localhost)(?![\w(-]|\.[\w(-])(?::\d+)?(?:[/?#][^\s"'<>`]*)?/gi;
+
+// Besides any two-letter country code: common generic TLDs, and the
+// special-use names internal hosts go by
+const TLDS = new Set(
+  (
+    'com net org edu gov mil int info biz name pro mobi app dev io ai co me tv cc xyz online site tech cloud page link ' +
+    'click top shop store blog news live world email zone space website club local localhost internal intranet corp ' +
+    'home lan test example invalid arpa onion'
+  ).split(' ')
+);
+// The target may hold balanced parentheses, one level deep: [x](https://en.wikipedia.org/wiki/Foo_(bar))
+const MARKDOWN_LINK = /\[[^\]\n]*\]\(\s*<?((?:[^\s()<>]|\([^\s()<>]*\))+)>?(?:\s+"[^"\n]*")?\s*\)/g;
+const HTML_ATTRIBUTE = /\b(?:href|src|action|formaction|poster|data)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+
+// A URL broken across a line or spaces continues when the piece before the
+// break cannot end a host, and the next piece still looks like part of one
+const CONTINUATION = /^[ \t]*(?:\r?\n[ \t]*)?([^\s"'<>`]+)/;
+// The rest of a host cut inside its first label: `mple.com` after `http://exa`
+const HOST_REST = /^[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}(?![\w-])/i;
+
+const SCRIPTS = ['Latin', 'Cyrillic', 'Greek', 'Armenian', 'Georgian', 'Cherokee', 'Arabic', 'Hebrew', 'Han', 'Hiragana', 'Katakana', 'Hangul', 'Thai', 'Devanagari'].map(
+  (name) => [name, new RegExp(`\\p{Script=${name}}`, 'u')] as const
+);
+
+/**
+ * Find URLs in free text: any http(s) or dangerous-scheme URL, scheme-less
+ * `//host` links, markdown and HTML link targets, and URLs split across a
+ * line break. Each distinct normalized URL is returned once, at its first
+ * occurrence.
+ */
+export function extractUrls(text: string): ExtractedUrl[] {
+  const found: ExtractedUrl[] = [];
+  const taken: Array<[number, number]> = [];
+  const add = (raw: string, index: number, origin: UrlOrigin, value = raw) => {
+    const end = index + raw.length;
+    if (taken.some(([s, e]) => index < e && end > s)) return;
+    taken.push([index, end]);
+    found.push({ url: normalizeUrl(value), raw, index, origin });
+  };
+
+  for (const m of text.matchAll(MARKDOWN_LINK)) {
+    const target = m[1];
+    if (isLinkTarget(target)) add(target, m.index! + m[0].indexOf(target, 1), 'markdown');
+  }
+  for (const m of text.matchAll(HTML_ATTRIBUTE)) {
+    const value = m[1] ?? m[2] ?? m[3];
+    const decoded = decodeEntities(value).trim();
+    if (value && isLinkTarget(decoded)) add(value, m.index! + m[0].lastIndexOf(value), 'html', decoded);
+  }
+
+  for (const m of text.matchAll(SCHEME_PATTERN)) {
+    const scheme = m[1].toLowerCase();
+    const chars = scheme === 'data' ? DATA_URL_CHARS : URL_CHARS;
+    chars.lastIndex = m.index! + m[0].length;
+    const rest = chars.exec(text)![0];
+    const opaque = OPAQUE_SCHEMES.has(scheme) && rest !== '' && (scheme !== 'data' || /^[\w.+-]*\/?[\w.+-]*(;[^,\s]*)?,/.test(rest));
+    if (!/^[\\/]{2}/.test(rest) && !opaque) continue;
+    const { raw, split } = extend(text, m.index!, m[0] + rest);
+    add(raw, m.index!, split ? 'split' : 'plain');
+  }
+
+  for (const m of text.matchAll(SCHEMELESS_PATTERN)) {
+    const tld = m[2]?.toLowerCase();
+    if (tld && tld.length > 2 && !TLDS.has(tld)) continue;
+    // `//` opening a line is a code comment unless a port or path follows the host
+    const lineStart = /(?:^|\n)[ \t]*$/.test(text.slice(0, m.index!));
+    if (lineStart && m[0].length === m[1].length + 2) continue;
+    const { raw } = extend(text, m.index!, m[0]);
+    add(raw, m.index!, 'scheme-less');
+  }
+
+  const seen = new Set<string>();
+  return found
+    .sort((a, b) => a.index - b.index)
+    .filter((u) => !seen.has(u.url) && seen.add(u.url));
+}
+
+/**
+ * Report a URL's host when it is an internationalized domain built to look
+ * like an ASCII one: letters from several scripts in one label, or a label
+ * made entirely of look-alike letters (`apple` with a Cyrillic U+0430 `a`).
+ */
+export function findHomoglyph(url: string): HomoglyphDomain | undefined {
+  let host: string;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+  const unicodeHost = domainToUnicode(host);
+  if (!unicodeHost || unicodeHost === host) return undefined;
+
+  const scripts = new Set<string>();
+  let suspicious = false;
+  for (const label of unicodeHost.split('.')) {
+    const labelScripts = new Set([...label].filter((ch) => /\p{L}/u.test(ch)).map(scriptOf));
+    labelScripts.forEach((s) => scripts.add(s));
+    const mixed = labelScripts.size > 1 && labelScripts.has('Latin');
+    const imitates = hasConfusable(label) && /^[\x00-\x7F]*$/.test(confusableSkeleton(label));
+    if (mixed || imitates) suspicious = true;
+  }
+  if (!suspicious) return undefined;
+  return { host, unicodeHost, lookalike: confusableSkeleton(unicodeHost), scripts: [...scripts] };
+}
+
+/**
+ * Canonical form for checking: whitespace from a split removed, `http:` for
+ * scheme-less links, then the URL parser's serialization (lowercase host, punycode, resolved dot segments).
+ * Text the parser rejects is returned as-is, for SSRF to report invalid.
+ */
+function normalizeUrl(value: string): string {
+  let joined = value.replace(/\s+/g, '');
+  if (/^[\\/]{2}/.test(joined)) joined = `http:${joined}`;
+  try {
+    return new URL(joined).href;
+  } catch {
+    return joined;
+  }
+}
+
+/**
+ * Trim trailing punctuation and join pieces of a URL broken by whitespace.
+ */
+function extend(text: string, index: number, match: string): { raw: string; split: boolean } {
+  let raw = match;
+  let split = false;
+  for (;;) {
+    const next = CONTINUATION.exec(text.slice(index + raw.length));
+    if (!next || next[0] === next[1]) break;
+    const piece = next[1];
+    const afterScheme = /:[\\/]{0,2}$/.test(raw) && !SCHEMES.some((s) => piece.toLowerCase().startsWith(`${s}:`));
+    const host = raw.replace(/^(?:[a-z][\w+.-]*:)?[\\/]{2}/i, '');
+    const inHost = !/[/?#]/.test(host) &&
+      ((/[.-]$/.test(raw) && (/^[a-z0-9-]+[.:/?#]./i.test(piece) || (/\d\.$/.test(raw) && /^\d+$/.test(piece)))) ||
+        (/^[a-z0-9-]+$/i.test(host) && host.toLowerCase() !== 'localhost' && HOST_REST.test(piece)));
+    if (!afterScheme && !inHost) break;
+    raw += next[0];
+    split = true;
+  }
+  raw = raw.replace(/[.,;:!?*_]+$/, '');
+  for (const [open, close] of [['(', ')'], ['[', ']']]) {
+    while (raw.endsWith(close) && raw.split(close).length > raw.split(open).length) raw = raw.slice(0, -1);
+  }
+  return { raw, split };
+}
+
+function isLinkTarget(value: string): boolean {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(value)?.[1].toLowerCase();
+  if (scheme) return SCHEMES.includes(scheme);
+  return /^[\\/]{2}[^\\/]/.test(value);
+}
+
+function decodeEntities(value: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", colon: ':', sol: '/', period: '.' };
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1].toLowerCase() === 'x' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return named[body.toLowerCase()] ?? entity;
+  });
+}
+
+function scriptOf(ch: string): string {
+  return SCRIPTS.find(([, re]) => re.test(ch))?.[0] ?? 'Other';
+}
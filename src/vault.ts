@@ -0,0 +1,276 @@
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes, scryptSync } from 'crypto';
+import { accessSync, constants, existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+export const VAULT_FILE = '.agntorvault';
+export const VAULT_KEY_ENV = 'AGNTOR_VAULT_KEY';
+const VAULT_VERSION = 1;
+
+/**
+ * How redact replaces a secret: the pattern's label (`[REDACTED:type]`), a
+ * fixed-length mask, a keyed hash, or a placeholder of the same shape.
+ */
+export const MASK_STYLES = ['label', 'fixed', 'hash', 'format'] as const;
+export type MaskStyle = (typeof MASK_STYLES)[number];
+
+// Same length whatever the secret, so the mask does not reveal it
+const FIXED_MASK = '********';
+
+// Hex digits of the keyed hash in `[REDACTED:type:hash]`
+const HASH_LENGTH = 12;
+const HASH_PLACEHOLDER_RE = /\[REDACTED:[^\s\]:]+:[0-9a-f]{12}\]/gi;
+
+/**
+ * The replacement text for one secret of type `type`.
+ */
+export type Masker = (type: string, value: string) => string;
+
+/**
+ * Key for hashing and the vault. Two subkeys are derived from it, so the
+ * hashes in redacted text say nothing about the vault encryption key.
+ */
+export interface VaultKey {
+  hash: Buffer;
+  encrypt: Buffer;
+  source: string;
+}
+
+interface VaultEntry {
+  type: string;
+  /** AES-256-GCM nonce, ciphertext and tag, base64. */
+  iv: string;
+  data: string;
+  tag: string;
+  created: string;
+}
+
+/**
+ * Originals of reversibly redacted secrets, encrypted, by the placeholder
+ * that replaced them.
+ */
+export interface Vault {
+  version: number;
+  entries: Record<string, VaultEntry>;
+}
+
+/**
+ * Raised when the vault or its key cannot be read, or the key does not
+ * decrypt the vault.
+ */
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+/**
+ * `$XDG_CONFIG_HOME/agntor/vault.key`, else `~/.config/agntor/vault.key`:
+ * outside the project, so the key is not committed beside the vault.
+ */
+export function defaultVaultKeyFile(): string {
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(base, 'agntor', 'vault.key');
+}
+
+/**
+ * Resolve the key: AGNTOR_VAULT_KEY (a passphrase), then `keyFile` (default
+ * defaultVaultKeyFile()). With `create`, a missing key file is generated.
+ */
+export function loadVaultKey(options: { keyFile?: string; create?: boolean } = {}): VaultKey {
+  const fromEnv = process.env[VAULT_KEY_ENV];
+  if (fromEnv) return deriveKey(passphraseKey(fromEnv), `$${VAULT_KEY_ENV}`);
+
+  const file = options.keyFile || defaultVaultKeyFile();
+  if (!existsSync(file)) {
+    if (!options.create) {
+      throw new VaultError(`No vault key at ${file}. Set ${VAULT_KEY_ENV} or pass --vault-key <file>.`);
+    }
+    mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+    writeFileSync(file, randomBytes(32).toString('hex') + '\n', { mode: 0o600 });
+  }
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf8').trim();
+  } catch (err: any) {
+    throw new VaultError(`Cannot read vault key ${file}: ${err.message}`);
+  }
+  if (!text) throw new VaultError(`Vault key ${file} is empty`);
+  const key = /^[0-9a-f]{64}$/i.test(text) ? Buffer.from(text, 'hex') : passphraseKey(text);
+  return deriveKey(key, file);
+}
+
+/**
+ * A masker for `style`. `hash` and `format` need the key, so the same secret
+ * always gets the same placeholder and nobody without the key can guess it.
+ */
+export function createMasker(style: Exclude<MaskStyle, 'label'>, key?: VaultKey): Masker {
+  if (style === 'fixed') return () => FIXED_MASK;
+  if (!key) throw new VaultError(`--mask ${style} needs a vault key`);
+  if (style === 'hash') {
+    return (type, value) => `[REDACTED:${type}:${keyedBytes(key, type, value, HASH_LENGTH / 2).toString('hex')}]`;
+  }
+  return (type, value) => formatPlaceholder(value, keyedBytes(key, type, value, value.length));
+}
+
+/**
+ * Wrap `mask` to store each original in `vault`, encrypted, under the
+ * placeholder that replaced it.
+ */
+export function vaultMasker(mask: Masker, vault: Vault, key: VaultKey): Masker {
+  return (type, value) => {
+    const placeholder = mask(type, value);
+    const existing = vault.entries[placeholder];
+    if (!existing) {
+      vault.entries[placeholder] = encrypt(key, placeholder, type, value);
+    } else if (decrypt(key, placeholder, existing) !== value) {
+      // Only short secrets under --mask format can collide
+      throw new VaultError(`Two ${type} secrets share the placeholder ${placeholder}; use --mask hash`);
+    }
+    return placeholder;
+  };
+}
+
+/**
+ * Put the originals back for every vault placeholder in `text`. A placeholder
+ * only counts as a whole token, not inside a longer run of letters and
+ * digits. Hash placeholders are matched regardless of case, as models
+ * sometimes change it; `format` ones, which look like ordinary text, only
+ * exactly. `unknown` lists hash placeholders the vault has no entry for.
+ */
+export function restoreText(text: string, vault: Vault, key: VaultKey): { text: string; restored: number; unknown: string[] } {
+  const byPlaceholder = new Map(Object.entries(vault.entries).map(([p, entry]) => [p.toLowerCase(), { placeholder: p, entry }]));
+  const lower = text.toLowerCase();
+  const present = [...byPlaceholder.keys()].filter((p) => lower.includes(p));
+
+  const unknown = [
+    ...new Set((text.match(HASH_PLACEHOLDER_RE) || []).filter((p) => !byPlaceholder.has(p.toLowerCase()))),
+  ];
+  if (present.length === 0) return { text, restored: 0, unknown };
+
+  // Longest first, so a placeholder that contains another wins
+  const alternation = present.sort((a, b) => b.length - a.length).map((p) => p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  let restored = 0;
+  const out = text.replace(new RegExp(`(?<![A-Za-z0-9])(?:${alternation.join('|')})(?![A-Za-z0-9])`, 'gi'), (match) => {
+    const { placeholder, entry } = byPlaceholder.get(match.toLowerCase())!;
+    if (match !== placeholder && !isHashPlaceholder(placeholder)) return match;
+    restored++;
+    return decrypt(key, placeholder, entry);
+  });
+  return { text: out, restored, unknown };
+}
+
+/**
+ * Read the vault; a missing file is an empty vault.
+ */
+export function loadVault(file: string): Vault {
+  if (!existsSync(file)) return { version: VAULT_VERSION, entries: {} };
+  let doc: any;
+  try {
+    doc = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err: any) {
+    throw new VaultError(`Invalid vault file ${file}: ${err.message}`);
+  }
+  if (doc?.version !== VAULT_VERSION || typeof doc.entries !== 'object' || doc.entries === null) {
+    throw new VaultError(`Invalid vault file ${file}: expected version ${VAULT_VERSION} with entries`);
+  }
+  return doc as Vault;
+}
+
+/**
+ * Fail early when the vault cannot be written: its directory must exist
+ * and be writable, and so must the file if it exists.
+ */
+export function checkVaultWritable(file: string): void {
+  const dir = path.dirname(path.resolve(file));
+  try {
+    accessSync(dir, constants.W_OK);
+    if (existsSync(file)) accessSync(file, constants.W_OK);
+  } catch (err: any) {
+    throw new VaultError(`Cannot write vault ${file}: ${err.code === 'ENOENT' ? `no directory ${dir}` : err.message}`);
+  }
+}
+
+/**
+ * Write via a temporary file and rename, readable by the owner only.
+ */
+export function saveVault(file: string, vault: Vault): void {
+  const tmp = `${file}.${process.pid}.tmp`;
+  try {
+    writeFileSync(tmp, JSON.stringify(vault, null, 2) + '\n', { mode: 0o600 });
+    renameSync(tmp, file);
+  } catch (err: any) {
+    rmSync(tmp, { force: true });
+    throw new VaultError(`Cannot write vault ${file}: ${err.message}`);
+  }
+}
+
+function isHashPlaceholder(placeholder: string): boolean {
+  return /^\[REDACTED:[^\s\]:]+:[0-9a-f]{12}\]$/i.test(placeholder);
+}
+
+function deriveKey(key: Buffer, source: string): VaultKey {
+  const subkey = (info: string) => Buffer.from(hkdfSync('sha256', key, Buffer.alloc(0), info, 32));
+  return { hash: subkey('agntor mask'), encrypt: subkey('agntor vault'), source };
+}
+
+function passphraseKey(passphrase: string): Buffer {
+  return scryptSync(passphrase, 'agntor-vault', 32);
+}
+
+/**
+ * `length` bytes determined by the key, the type and the secret (HMAC-SHA256
+ * in counter mode).
+ */
+function keyedBytes(key: VaultKey, type: string, value: string, length: number): Buffer {
+  const blocks: Buffer[] = [];
+  for (let i = 0; blocks.length * 32 < length; i++) {
+    blocks.push(createHmac('sha256', key.hash).update(`${i}\u0000${type}\u0000${value}`).digest());
+  }
+  return Buffer.concat(blocks).subarray(0, length);
+}
+
+/**
+ * Same length and shape as `value`: digits become digits, letters letters of
+ * the same case, and everything else (separators such as `-` and `_`, the `@`
+ * of an email) is kept.
+ */
+function formatPlaceholder(value: string, bytes: Buffer): string {
+  let out = '';
+  for (let i = 0; i < value.length; i++) {
+    const c = value[i];
+    const b = bytes[i];
+    if (c >= '0' && c <= '9') out += String.fromCharCode(48 + (b % 10));
+    else if (c >= 'a' && c <= 'z') out += String.fromCharCode(97 + (b % 26));
+    else if (c >= 'A' && c <= 'Z') out += String.fromCharCode(65 + (b % 26));
+    else out += c;
+  }
+  return out;
+}
+
+// The placeholder is bound as associated data, so entries cannot be swapped
+function encrypt(key: VaultKey, placeholder: string, type: string, value: string): VaultEntry {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key.encrypt, iv);
+  cipher.setAAD(Buffer.from(placeholder, 'utf8'));
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return {
+    type,
+    iv: iv.toString('base64'),
+    data: data.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    created: new Date().toISOString(),
+  };
+}
+
+function decrypt(key: VaultKey, placeholder: string, entry: VaultEntry): string {
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key.encrypt, Buffer.from(entry.iv, 'base64'));
+    decipher.setAAD(Buffer.from(placeholder, 'utf8'));
+    decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(entry.data, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new VaultError(`Cannot decrypt the vault entry for ${placeholder}; was it written with another key (${key.source})?`);
+  }
+}
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { test } from 'node:test';
+
+import { cacheKey, createFileCache, createNullCache } from '../src/cache.js';
+import { tempDir } from './cli.js';
+
+test('the file cache round-trips values and honours a TTL', () => {
+  const dir = tempDir();
+  const cache = createFileCache(dir);
+  cache.set('explanations', 'k', { text: 'hello' });
+  assert.deepEqual(cache.get('explanations', 'k'), { text: 'hello' });
+  assert.deepEqual(cache.get('explanations', 'k', 60_000), { text: 'hello' });
+
+  writeFileSync(path.join(dir, 'explanations', 'old.json'), JSON.stringify({ createdAt: Date.now() - 120_000, value: 'stale' }));
+  assert.equal(cache.get('explanations', 'old'), 'stale');
+  assert.equal(cache.get('explanations', 'old', 60_000), undefined);
+});
+
+test('unreadable entries are misses and write failures are ignored', () => {
+  const dir = tempDir();
+  mkdirSync(path.join(dir, 'probe'));
+  writeFileSync(path.join(dir, 'probe', 'bad.json'), '{not json');
+  const cache = createFileCache(dir);
+  assert.equal(cache.get('probe', 'bad'), undefined);
+  assert.equal(cache.get('probe', 'missing'), undefined);
+
+  // A file where the cache directory should be makes every write fail
+  const blocked = path.join(dir, 'file');
+  writeFileSync(blocked, '');
+  assert.doesNotThrow(() => createFileCache(blocked).set('probe', 'k', 1));
+});
+
+test('cache keys are stable and separate their parts', () => {
+  assert.equal(cacheKey('a', 'b'), cacheKey('a', 'b'));
+  assert.notEqual(cacheKey('ab', ''), cacheKey('a', 'b'));
+  assert.match(cacheKey('x'), /^[0-9a-f]{64}$/);
+});
+
+test('the null cache stores nothing', () => {
+  const cache = createNullCache();
+  cache.set('explanations', 'k', 'v');
+  assert.equal(cache.get('explanations', 'k'), undefined);
+});
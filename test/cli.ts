@@ -0,0 +1,27 @@
+import { spawnSync } from 'child_process';
+import { mkdtempSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// The compiled CLI, beside this file's compiled copy
+const CLI = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'src', 'index.js');
+
+/**
+ * Run the CLI with the explainer off, in `cwd` (default: a fresh temporary
+ * directory, so no config, baseline or vault from the checkout applies).
+ */
+export function runCli(args: string[], options: { cwd?: string; input?: string; env?: Record<string, string> } = {}) {
+  const result = spawnSync(process.execPath, [CLI, '--explainer', 'none', ...args], {
+    cwd: options.cwd || tempDir(),
+    input: options.input,
+    encoding: 'utf8',
+    env: { ...process.env, NO_COLOR: '1', ...options.env },
+    timeout: 30_000,
+  });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+export function tempDir(): string {
+  return mkdtempSync(path.join(os.tmpdir(), 'agntor-test-'));
+}
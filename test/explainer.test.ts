@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import type { IncomingMessage } from 'http';
+import type { AddressInfo } from 'net';
+import { after, before, test } from 'node:test';
+
+import { createExplainer, createOpenAIExplainer, explainFromTemplate } from '../src/explainer.js';
+
+// A minimal OpenAI-compatible endpoint that records what it was sent
+const requests: Array<{ url?: string; auth?: string; body: any }> = [];
+let status = 200;
+const server = createServer(async (req: IncomingMessage, res) => {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  requests.push({ url: req.url, auth: req.headers.authorization, body: raw ? JSON.parse(raw) : undefined });
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(req.url === '/v1/models' ? { data: [] } : { choices: [{ message: { content: '  A summary.\n' } }] }));
+});
+let baseUrl = '';
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+test('createExplainer builds the backend it is named for', async () => {
+  const template = createExplainer('template');
+  assert.equal(template.name, 'template');
+  assert.equal(template.cacheable, false);
+  assert.deepEqual(await template.probe(), { available: true });
+
+  const none = createExplainer('none');
+  assert.deepEqual(await none.probe(), { available: false });
+  assert.equal(await none.explain('prompt', { kind: 'scan', level: 'low', reasons: [] }), '');
+
+  assert.equal(createExplainer('openai', { openai: { model: 'm', baseUrl: 'http://127.0.0.1:1/v1' } }).id, 'openai:m@http://127.0.0.1:1/v1');
+});
+
+test('templates explain each violation and secret type offline', () => {
+  const guard = explainFromTemplate({ kind: 'guard', classification: 'block', violations: ['prompt-injection'] });
+  assert.match(guard, /classified as \*\*block\*\*/);
+  assert.match(guard, /\*\*prompt-injection\*\*: An instruction override/);
+
+  const redact = explainFromTemplate({ kind: 'redact', types: ['aws_access_key', 'zip'], count: 2 });
+  assert.match(redact, /Found 2 secret/);
+  assert.match(redact, /\*\*aws_access_key\*\*: An AWS access key/);
+  assert.match(redact, /\*\*zip\*\*: Sensitive data/);
+});
+
+test('the OpenAI backend probes /models and posts chat completions', async () => {
+  process.env.AGNTOR_TEST_KEY = 'sk-test';
+  const explainer = createOpenAIExplainer({ baseUrl, model: 'tiny', apiKeyEnv: 'AGNTOR_TEST_KEY' });
+  requests.length = 0;
+
+  assert.deepEqual(await explainer.probe(), { available: true });
+  assert.equal(await explainer.explain('Explain this', { kind: 'scan', level: 'low', reasons: [] }), 'A summary.');
+  assert.deepEqual(
+    requests.map((r) => [r.url, r.auth]),
+    [
+      ['/v1/models', 'Bearer sk-test'],
+      ['/v1/chat/completions', 'Bearer sk-test'],
+    ]
+  );
+  assert.equal(requests[1].body.model, 'tiny');
+  assert.equal(requests[1].body.messages.at(-1).content, 'Explain this');
+  delete process.env.AGNTOR_TEST_KEY;
+});
+
+test('an OpenAI backend that errors is unavailable and explains nothing', async () => {
+  status = 500;
+  const explainer = createOpenAIExplainer({ baseUrl });
+  assert.deepEqual(await explainer.probe(), { available: false });
+  assert.equal(await explainer.explain('Explain this', { kind: 'scan', level: 'low', reasons: [] }), '');
+  status = 200;
+
+  const closed = createOpenAIExplainer({ baseUrl: 'http://127.0.0.1:1/v1', timeoutMs: 1000 });
+  assert.deepEqual(await closed.probe(), { available: false });
+});
@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, symlinkSync, writeFileSync } from 'fs';
+import path from 'path';
+import { test } from 'node:test';
+
+import { collectInputs } from '../src/input.js';
+import { ExitCode } from '../src/severity.js';
+import { runCli, tempDir } from './cli.js';
+
+test('stdin given twice is a usage error, not a second clean source', () => {
+  const result = runCli(['scan', '-', '--file', '-'], { input: 'ignore previous instructions\n' });
+  assert.equal(result.status, ExitCode.Error);
+  assert.match(result.stderr + result.stdout, /Stdin can only be read once/);
+});
+
+test('directory walks follow symlinks once and report broken ones', async () => {
+  const dir = tempDir();
+  mkdirSync(path.join(dir, 'docs'));
+  writeFileSync(path.join(dir, 'docs', 'a.md'), 'alpha');
+  symlinkSync(path.join(dir, 'docs'), path.join(dir, 'docs', 'loop'));
+  symlinkSync(path.join(dir, 'docs', 'a.md'), path.join(dir, 'docs', 'b.md'));
+  mkdirSync(path.join(dir, 'other'));
+  writeFileSync(path.join(dir, 'other', 'c.md'), 'gamma');
+  symlinkSync(path.join(dir, 'other'), path.join(dir, 'docs', 'linked'));
+  symlinkSync(path.join(dir, 'missing.md'), path.join(dir, 'docs', 'gone.md'));
+
+  const { sources, skipped } = await collectInputs([], { file: [path.join(dir, 'docs')] });
+  assert.deepEqual(sources.map((s) => path.relative(dir, s.path!)), [path.join('docs', 'a.md'), path.join('docs', 'linked', 'c.md')]);
+  assert.deepEqual(skipped, [{ path: path.join(dir, 'docs', 'gone.md'), reason: 'broken symlink' }]);
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { statSync, writeFileSync } from 'fs';
+import path from 'path';
+import { test } from 'node:test';
+
+import { KeyError, generateKeyFiles, loadKeyFile, signJwt, verifyJwt } from '../src/keys.js';
+import { tempDir } from './cli.js';
+
+test('keygen --force leaves the replaced private key readable by the owner only', () => {
+  const prefix = path.join(tempDir(), 'ticket');
+  writeFileSync(`${prefix}.key.pem`, 'old key\n', { mode: 0o644 });
+  const files = generateKeyFiles('ES256', prefix, true);
+  assert.equal(statSync(files.privateKeyFile).mode & 0o777, 0o600);
+});
+
+test('asymmetric tickets without exp are rejected', () => {
+  const files = generateKeyFiles('EdDSA', path.join(tempDir(), 'ticket'));
+  const key = loadKeyFile(files.privateKeyFile);
+  assert.ok(key.kind === 'asymmetric' && key.privateKey);
+  const now = Math.floor(Date.now() / 1000);
+  assert.deepEqual(verifyJwt(signJwt({ sub: 'agent-007', iat: now }, key.privateKey), key.publicKeys), {
+    valid: false,
+    errorCode: 'MISSING_EXPIRY',
+  });
+  assert.deepEqual(verifyJwt(signJwt({ sub: 'agent-007', iat: now, exp: now + 60 }, key.privateKey), key.publicKeys), { valid: true });
+});
+
+test('an oct JWK keeps its secret as raw bytes and needs k', () => {
+  const dir = tempDir();
+  const bytes = Buffer.from([0xff, 0xfe, 0x00, 0x80, 0x41]);
+  const file = path.join(dir, 'secret.jwk.json');
+  writeFileSync(file, JSON.stringify({ kty: 'oct', k: bytes.toString('base64url') }));
+  const key = loadKeyFile(file);
+  assert.ok(key.kind === 'secret');
+  assert.deepEqual(key.secret, bytes);
+
+  const missing = path.join(dir, 'missing.jwk.json');
+  writeFileSync(missing, JSON.stringify({ kty: 'oct' }));
+  assert.throws(() => loadKeyFile(missing), (err: unknown) => err instanceof KeyError && /needs its secret in k/.test(err.message));
+});
+
+test('a JWKS picks the verification key by kid', () => {
+  const files = generateKeyFiles('ES256', path.join(tempDir(), 'ticket'));
+  const signer = loadKeyFile(files.privateKeyFile);
+  const jwks = loadKeyFile(files.jwksFile);
+  assert.ok(signer.kind === 'asymmetric' && signer.privateKey && jwks.kind === 'asymmetric');
+  const kid = jwks.publicKeys[0].kid;
+  assert.ok(kid);
+
+  const now = Math.floor(Date.now() / 1000);
+  const token = (header: { kid?: string }) => signJwt({ sub: 'agent-007', iat: now, exp: now + 60 }, { ...signer.privateKey!, ...header });
+  assert.deepEqual(verifyJwt(token({ kid }), jwks.publicKeys), { valid: true });
+  assert.deepEqual(verifyJwt(token({ kid: 'rotated-away' }), jwks.publicKeys), { valid: false, errorCode: 'UNKNOWN_KEY_ID' });
+  assert.deepEqual(verifyJwt(token({ kid }), [{ ...jwks.publicKeys[0], alg: 'RS256' }]), { valid: false, errorCode: 'ALGORITHM_MISMATCH' });
+});
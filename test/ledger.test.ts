@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { test } from 'node:test';
+
+import { readLedger } from '../src/ledger.js';
+import { ExitCode } from '../src/severity.js';
+import { runCli, tempDir } from './cli.js';
+
+const FROM = '0x742D35CC6634C0532925a3B844Bc9E7595F2bD18';
+const TO = '0x8ba1f109551bD432803012645Ac136ddd64DBA72';
+
+test('ledger amounts are kept as written, never in exponent notation', () => {
+  const file = path.join(tempDir(), 'ledger.json');
+  writeFileSync(file, JSON.stringify([
+    { from: FROM, to: TO, value: 1e21 },
+    { from: FROM, to: TO, value: '12.50' },
+    { from: FROM, to: TO, value: 0.0000001 },
+  ]));
+  assert.deepEqual(readLedger(file).entries.map((e) => e.amount), ['1000000000000000000000', '12.50', '0.0000001']);
+});
+
+test('a bad ledger row is a finding and does not hide the other rows', () => {
+  const dir = tempDir();
+  writeFileSync(path.join(dir, 'ledger.ndjson'), [
+    JSON.stringify({ from: FROM, to: TO, value: 25 }),
+    'not json',
+  ].join('\n') + '\n');
+  const result = runCli(['--format', 'json', 'settle', '--batch', 'ledger.ndjson'], { cwd: dir });
+  const records = JSON.parse(result.stdout).results;
+  assert.deepEqual(
+    records.filter((r: any) => r.kind === 'settlement-row').map((r: any) => r.row),
+    [2]
+  );
+  assert.equal(records.filter((r: any) => r.kind === 'settlement').length, 1);
+  assert.notEqual(result.status, ExitCode.Error);
+});
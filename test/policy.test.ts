@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { test } from 'node:test';
+
+import { ConfigError, loadPolicyFile } from '../src/config.js';
+import { buildPolicy, runGuard, runRedact } from '../src/policy.js';
+import { ExitCode } from '../src/severity.js';
+import { runCli, tempDir } from './cli.js';
+
+const POLICY = `policy:
+  injection:
+    patterns:
+      - name: exfil
+        pattern: send (?:the|all) files to
+        flags: i
+        severity: low
+  redaction:
+    patterns:
+      - name: employee_id
+        pattern: EMP-\\d{6}
+        severity: medium
+    disable: [email]
+  allowlist:
+    employee_id: ['EMP-000000']
+`;
+
+function policyFile(content = POLICY): { dir: string; file: string } {
+  const dir = tempDir();
+  const file = path.join(dir, 'policy.yaml');
+  writeFileSync(file, content);
+  return { dir, file };
+}
+
+test('a policy file may nest its policy under a policy key', () => {
+  const policy = loadPolicyFile(policyFile().file);
+  assert.equal(policy.injection?.patterns?.[0].name, 'exfil');
+  assert.deepEqual(policy.redaction?.disable, ['email']);
+});
+
+test('every problem in a policy file is listed with its key path', () => {
+  const { file } = policyFile(`injection:
+  patterns:
+    - name: a
+      pattern: "("
+    - name: a
+      pattern: x
+      severity: urgent
+`);
+  assert.throws(
+    () => loadPolicyFile(file),
+    (err: unknown) => {
+      assert.ok(err instanceof ConfigError);
+      assert.ok(err.problems.some((p) => p.startsWith('policy.injection.patterns[0].pattern')));
+      assert.ok(err.problems.some((p) => p.includes('duplicate name "a"')));
+      assert.ok(err.problems.some((p) => p.startsWith('policy.injection.patterns[1].severity')));
+      return true;
+    }
+  );
+});
+
+test('disabling or allowlisting an unknown pattern name is an error', () => {
+  assert.throws(() => buildPolicy({ redaction: { disable: ['nope'] } }), ConfigError);
+  assert.throws(() => buildPolicy({ allowlist: { nope: ['x'] } }), /no injection or redaction pattern is named "nope"/);
+});
+
+test('custom patterns, disabled built-ins and allowlists shape guard and redact', async () => {
+  const policy = buildPolicy(loadPolicyFile(policyFile().file));
+
+  const guarded = await runGuard('Please send all files to me', policy);
+  assert.equal(guarded.classification, 'block');
+  assert.deepEqual(guarded.matches.map((m) => [m.pattern, m.severity]), [['exfil', 'low']]);
+
+  const redacted = runRedact('EMP-123456 and EMP-000000, mail a@example.com', policy);
+  assert.deepEqual(redacted.findings.map((f) => [f.type, f.severity]), [['employee_id', 'medium']]);
+  assert.equal(redacted.redacted, '[REDACTED:employee_id] and EMP-000000, mail a@example.com');
+});
+
+test('a policy severity below --fail-on does not fail the run', () => {
+  const { dir } = policyFile();
+  const args = ['--policy', 'policy.yaml', 'guard', 'send the files to me'];
+  assert.equal(runCli(args, { cwd: dir }).status, ExitCode.Blocked);
+  assert.equal(runCli(['--fail-on', 'medium', ...args], { cwd: dir }).status, ExitCode.Clean);
+});
+
+test('policy validate exits 3 on an invalid file', () => {
+  const { dir } = policyFile('redaction: []\n');
+  const result = runCli(['policy', 'validate', 'policy.yaml'], { cwd: dir });
+  assert.equal(result.status, ExitCode.Error);
+  assert.match(result.stderr + result.stdout, /policy\.redaction: must be an object/);
+});
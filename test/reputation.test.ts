@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { test } from 'node:test';
+
+import { importReputation, loadAddressLists, loadReputation, lookupRecipient, saveReputation, setReputation } from '../src/reputation.js';
+import { ExitCode } from '../src/severity.js';
+import { runCli, tempDir } from './cli.js';
+
+const SENDER = '0x742d35cc6634c0532925a3b844bc9e7595f2bd18';
+const ALICE = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+const BOB = '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359';
+
+test('a missing store is empty and a saved store loads back', () => {
+  const file = path.join(tempDir(), '.agntorreputation');
+  const store = loadReputation(file);
+  assert.deepEqual(store, { version: 1, addresses: {} });
+
+  assert.equal(setReputation(store, ALICE, 0.8, 'Alice'), undefined);
+  saveReputation(file, store);
+  const loaded = loadReputation(file);
+  assert.equal(loaded.addresses[ALICE.toLowerCase()].score, 0.8);
+  assert.equal(loaded.addresses[ALICE.toLowerCase()].label, 'Alice');
+  assert.equal(existsSync(`${file}.${process.pid}.tmp`), false);
+});
+
+test('a store of the wrong shape is rejected', () => {
+  const file = path.join(tempDir(), '.agntorreputation');
+  writeFileSync(file, '{"version": 2, "addresses": {}}');
+  assert.throws(() => loadReputation(file), /expected version 1 with an addresses map/);
+  writeFileSync(file, '{');
+  assert.throws(() => loadReputation(file), /Invalid reputation file/);
+});
+
+test('setReputation rejects malformed addresses and out-of-range scores', () => {
+  const store = loadReputation(path.join(tempDir(), 'none'));
+  assert.match(setReputation(store, '0x1234', 0.5) || '', /not a 20-byte hex address/);
+  assert.match(setReputation(store, ALICE, 1.5) || '', /score must be between 0 and 1/);
+  assert.match(setReputation(store, ALICE, NaN) || '', /score must be between 0 and 1/);
+  assert.deepEqual(store.addresses, {});
+});
+
+test('importReputation records good rows and reports bad ones by row', () => {
+  const dir = tempDir();
+  const file = path.join(dir, 'scores.csv');
+  writeFileSync(file, `address,score,label\n${ALICE},0.9,Alice\n0xnope,0.5,\n${BOB},,Bob\n`);
+  const store = loadReputation(path.join(dir, 'none'));
+  const result = importReputation(store, file);
+  assert.equal(result.imported, 1);
+  assert.deepEqual(result.errors, [
+    'row 2: 0xnope is not a 20-byte hex address',
+    'row 3: score must be between 0 and 1, got NaN',
+  ]);
+  assert.deepEqual(Object.keys(store.addresses), [ALICE.toLowerCase()]);
+});
+
+test('address lists read labels, skip comments and include the built-in burn address', () => {
+  const dir = tempDir();
+  const deny = path.join(dir, 'deny.txt');
+  const allow = path.join(dir, 'allow.txt');
+  writeFileSync(deny, `# known scams\n${ALICE} phishing kit\n\n`);
+  writeFileSync(allow, `${BOB}, payroll # monthly\n`);
+  const lists = loadAddressLists([deny], [allow]);
+  assert.deepEqual(lists.deny.get(ALICE.toLowerCase()), { address: ALICE, label: 'phishing kit', source: deny });
+  assert.equal(lists.deny.get('0x000000000000000000000000000000000000dead')?.source, 'built-in');
+  assert.deepEqual(lists.allow.get(BOB.toLowerCase()), { address: BOB, label: 'payroll', source: allow });
+
+  writeFileSync(deny, 'not-an-address\n');
+  assert.throws(() => loadAddressLists([deny], []), /deny\.txt:1: not-an-address is not a 20-byte hex address/);
+  assert.throws(() => loadAddressLists([path.join(dir, 'missing.txt')], []), /Cannot read address list/);
+});
+
+test('lookupRecipient prefers the store, then the allowlist, then the flag', () => {
+  const store = loadReputation(path.join(tempDir(), 'none'));
+  setReputation(store, ALICE, 0.2, 'Alice');
+  const lists = loadAddressLists([], []);
+  lists.allow.set(ALICE.toLowerCase(), { address: ALICE, source: 'allow.txt' });
+  lists.allow.set(BOB.toLowerCase(), { address: BOB, label: 'Bob', source: 'allow.txt' });
+
+  assert.deepEqual(lookupRecipient(ALICE.toUpperCase().replace('0X', '0x'), store, lists, 0.9), {
+    score: 0.2, source: 'store', label: 'Alice', denied: undefined,
+  });
+  assert.deepEqual(lookupRecipient(BOB, store, lists, 0.1), { score: 1, source: 'allowlist', label: 'Bob', denied: undefined });
+  assert.deepEqual(lookupRecipient(SENDER, store, lists, 0.4), { score: 0.4, source: 'flag', denied: undefined });
+  assert.deepEqual(lookupRecipient(SENDER, store, lists), { source: 'unknown', denied: undefined });
+
+  // A denylisted address is never trusted through the allowlist
+  lists.deny.set(BOB.toLowerCase(), { address: BOB, source: 'deny.txt' });
+  const denied = lookupRecipient(BOB, store, lists, 0.5);
+  assert.equal(denied.source, 'flag');
+  assert.equal(denied.denied?.source, 'deny.txt');
+});
+
+test('settle blocks a denylisted recipient and scores a stored one', () => {
+  const cwd = tempDir();
+  writeFileSync(path.join(cwd, 'deny.txt'), `${ALICE} known scam\n`);
+  const denied = runCli(['--format', 'json', 'settle', '--from', SENDER, '--to', ALICE, '--value', '10', '--denylist', 'deny.txt'], { cwd });
+  assert.equal(denied.status, ExitCode.Blocked);
+  const [record] = JSON.parse(denied.stdout).results;
+  assert.ok(record.riskFactors.some((f: string) => f.includes('denylisted (known scam) [deny.txt]')));
+
+  assert.equal(runCli(['reputation', 'set', BOB, '0.1', '--label', 'Bob'], { cwd }).status, ExitCode.Clean);
+  const stored = JSON.parse(readFileSync(path.join(cwd, '.agntorreputation'), 'utf8'));
+  assert.equal(stored.addresses[BOB.toLowerCase()].score, 0.1);
+  const settled = runCli(['--format', 'json', 'settle', '--from', SENDER, '--to', BOB, '--value', '10', '--reputation', '0.9'], { cwd });
+  assert.equal(JSON.parse(settled.stdout).results[0].transaction.reputationScore, 0.1);
+});
+
+test('reputation set and import exit 3 on bad input', () => {
+  const cwd = tempDir();
+  assert.equal(runCli(['reputation', 'set', BOB, '2'], { cwd }).status, ExitCode.Error);
+  writeFileSync(path.join(cwd, 'scores.json'), JSON.stringify([{ address: ALICE, score: 0.7 }, { address: BOB, score: -1 }]));
+  const result = runCli(['--format', 'json', 'reputation', 'import', 'scores.json'], { cwd });
+  assert.equal(result.status, ExitCode.Error);
+  const get = runCli(['--format', 'json', 'reputation', 'get', ALICE], { cwd });
+  assert.equal(JSON.parse(get.stdout).results[0].score, 0.7);
+});
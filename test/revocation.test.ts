@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { test } from 'node:test';
+
+import { emptyStore, revocationStatus, revoke } from '../src/revocation.js';
+import { ExitCode } from '../src/severity.js';
+import { runCli, tempDir } from './cli.js';
+
+test('agent revocation compares issue times in whole seconds', () => {
+  const store = emptyStore();
+  store.revoked.push({ id: 'agent-007', revokedAt: '2026-01-01T00:00:10.500Z' });
+  const second = Date.parse('2026-01-01T00:00:10Z') / 1000;
+  assert.equal(revocationStatus(store, { sub: 'agent-007', iat: second - 1 }), 'REVOKED');
+  assert.equal(revocationStatus(store, { sub: 'agent-007', iat: second }), 'REVOKED');
+  assert.equal(revocationStatus(store, { sub: 'agent-007', iat: second + 0.9 }), 'REVOKED');
+  assert.equal(revocationStatus(store, { sub: 'agent-007', iat: second + 1 }), undefined);
+});
+
+test('revoking an agent again revokes the tickets issued since', () => {
+  const store = emptyStore();
+  assert.equal(revoke(store, 'agent-007'), 'added');
+  store.revoked[0].revokedAt = '2026-01-01T00:00:00Z';
+  const later = Date.parse('2026-01-02T00:00:00Z') / 1000;
+  assert.equal(revocationStatus(store, { sub: 'agent-007', iat: later }), undefined);
+  assert.equal(revoke(store, 'agent-007', 'leaked again'), 'renewed');
+  assert.equal(store.revoked.length, 1);
+  assert.equal(store.revoked[0].reason, 'leaked again');
+  assert.equal(revocationStatus(store, { sub: 'agent-007', iat: later }), 'REVOKED');
+});
+
+test('an unreadable revocation store is an error, not a crash', () => {
+  const dir = tempDir();
+  writeFileSync(path.join(dir, '.agntorrevocations'), '{"version": 1}');
+  for (const args of [['ticket', 'revoke', 'agent-007'], ['killswitch', 'on', 'agent-007']]) {
+    const result = runCli(args, { cwd: dir });
+    assert.equal(result.status, ExitCode.Error);
+    assert.match(result.stdout + result.stderr, /Invalid revocation file/);
+    assert.doesNotMatch(result.stdout + result.stderr, /Unexpected error/);
+  }
+});
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { InvalidArgumentError } from 'commander';
+import { test } from 'node:test';
+
+import { checkAddress, mergeRisk, parseReputation, parseSettlementAmount, senderRiskFactors, toChecksumAddress } from '../src/settlement.js';
+import { ExitCode } from '../src/severity.js';
+import { runCli } from './cli.js';
+
+// Test vectors from EIP-55
+const CHECKSUMMED = ['0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed', '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359'];
+const SENDER = '0x742D35CC6634C0532925a3B844Bc9E7595F2bD18'.toLowerCase();
+// One letter's case flipped: a typo the checksum exists to catch
+const TYPO = CHECKSUMMED[0].replace('A', 'a');
+
+test('addresses are checksummed as EIP-55 specifies', () => {
+  for (const address of CHECKSUMMED) {
+    assert.equal(toChecksumAddress(address.toLowerCase()), address);
+    assert.deepEqual(checkAddress(address), { wellFormed: true, checksumMismatch: false, checksummed: address });
+  }
+});
+
+test('single-case addresses carry no checksum; mixed case must match it', () => {
+  const [address] = CHECKSUMMED;
+  assert.equal(checkAddress(address.toLowerCase()).checksumMismatch, false);
+  assert.equal(checkAddress('0x' + address.slice(2).toUpperCase()).checksumMismatch, false);
+  assert.deepEqual(checkAddress(TYPO), { wellFormed: true, checksumMismatch: true, checksummed: address });
+  assert.equal(checkAddress('0x1234').wellFormed, false);
+  assert.equal(checkAddress(address.slice(2)).wellFormed, false);
+});
+
+test('sender-side risks block malformed, mis-checksummed and zero addresses', () => {
+  const [address] = CHECKSUMMED;
+  assert.deepEqual(senderRiskFactors(SENDER, address), []);
+
+  const [mismatch] = senderRiskFactors(SENDER, TYPO);
+  assert.equal(mismatch.blocking, true);
+  assert.match(mismatch.factor, /^Recipient address fails its EIP-55 checksum \(expected 0x5aAeb/);
+
+  assert.match(senderRiskFactors('0xnope', address)[0].factor, /^Sender address is not a 20-byte hex address/);
+  assert.match(senderRiskFactors(SENDER, '0x' + '0'.repeat(40))[0].factor, /zero address/);
+
+  const self = senderRiskFactors(SENDER, SENDER.toUpperCase().replace('0X', '0x'));
+  assert.deepEqual(self, [{ factor: 'Self-payment: sender and recipient are the same address', score: 0.6 }]);
+});
+
+test('a blocking local factor blocks whatever the SDK decided', () => {
+  const sdk = { classification: 'pass', riskScore: 0.2, riskFactors: ['high value'] };
+  assert.deepEqual(mergeRisk(sdk, []), sdk);
+  assert.deepEqual(mergeRisk(sdk, [{ factor: 'Self-payment', score: 0.6 }]), {
+    classification: 'pass',
+    riskScore: 0.6,
+    riskFactors: ['Self-payment', 'high value'],
+  });
+  assert.equal(mergeRisk(sdk, [{ factor: 'bad', score: 0.1, blocking: true }]).classification, 'block');
+});
+
+test('settle flag parsers keep amounts as written and bound reputation', () => {
+  assert.equal(parseSettlementAmount(' 12.50 '), '12.50');
+  assert.throws(() => parseSettlementAmount('1e3'), InvalidArgumentError);
+  assert.throws(() => parseSettlementAmount('0'), InvalidArgumentError);
+  assert.equal(parseReputation('0.25'), 0.25);
+  assert.throws(() => parseReputation('1.5'), InvalidArgumentError);
+});
+
+test('settle blocks a recipient whose checksum does not match', () => {
+  const result = runCli(['--format', 'json', 'settle', '--from', SENDER, '--to', TYPO, '--value', '10']);
+  assert.equal(result.status, ExitCode.Blocked);
+  const [record] = JSON.parse(result.stdout).results;
+  assert.equal(record.classification, 'block');
+  assert.ok(record.riskFactors.some((f: string) => f.includes('EIP-55')));
+  assert.equal(runCli(['settle', '--from', SENDER, '--to', CHECKSUMMED[0], '--value', '10']).status, ExitCode.Clean);
+});
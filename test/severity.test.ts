@@ -0,0 +1,16 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { redactionSeverity } from '../src/severity.js';
+
+test('redaction types get severity from whole keywords only', () => {
+  assert.equal(redactionSeverity('eth_private_key'), 'critical');
+  assert.equal(redactionSeverity('aws_access_key'), 'high');
+  assert.equal(redactionSeverity('ip_address'), 'medium');
+  assert.equal(redactionSeverity('ipv4'), 'medium');
+  assert.equal(redactionSeverity('email'), 'medium');
+  assert.equal(redactionSeverity('zip'), 'low');
+  assert.equal(redactionSeverity('recipient'), 'low');
+  assert.equal(redactionSeverity('swift_code'), 'low');
+  assert.equal(redactionSeverity('laws'), 'low');
+});
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { test } from 'node:test';
+
+import { ExitCode } from '../src/severity.js';
+import { checkUrl, classifyIp, decodeObfuscatedIp, matchesHost } from '../src/ssrf.js';
+import type { Resolver, SsrfOptions } from '../src/ssrf.js';
+import { runCli, tempDir } from './cli.js';
+
+function withHostsConfig(hosts?: string): string {
+  const dir = tempDir();
+  writeFileSync(path.join(dir, 'agntor.config.json'), JSON.stringify({ ssrf: { hostsFile: 'hosts' } }));
+  if (hosts !== undefined) writeFileSync(path.join(dir, 'hosts'), hosts);
+  return dir;
+}
+
+test('scan stops with a config error when the hosts file is missing', () => {
+  const result = runCli(['scan', 'fetch http://internal.test/data'], { cwd: withHostsConfig() });
+  assert.equal(result.status, ExitCode.Error);
+  assert.match(result.stdout + result.stderr, /Invalid config hosts/);
+  assert.doesNotMatch(result.stdout, /Unexpected error/);
+});
+
+test('scan stops with a config error on a bad hosts file line', () => {
+  const result = runCli(['scan', 'fetch http://internal.test/data'], { cwd: withHostsConfig('not-an-address internal.test\n') });
+  assert.equal(result.status, ExitCode.Error);
+  assert.match(result.stdout + result.stderr, /hosts:1: expected an IP address/);
+});
+
+const resolver = (answers: Record<string, string[]>): Resolver => ({
+  id: 'test',
+  resolve: async (host) => answers[host] ?? [],
+});
+
+test('checkUrl names the rule that decided each URL', async () => {
+  const rules = async (url: string, options: SsrfOptions = {}) => {
+    const check = await checkUrl(url, options);
+    return [check.safe, check.rule];
+  };
+  assert.deepEqual(await rules('file:///etc/passwd'), [false, 'scheme']);
+  assert.deepEqual(await rules('http://169.254.169.254/latest/meta-data'), [false, 'private-ip']);
+  assert.deepEqual(await rules('http://2130706433/'), [false, 'obfuscated-ip']);
+  assert.deepEqual(await rules('http://[::ffff:127.0.0.1]/'), [false, 'obfuscated-ip']);
+  assert.deepEqual(await rules('https://evil.example/', { denylist: ['*.example'] }), [false, 'denylist']);
+  assert.deepEqual(await rules('http://10.1.2.3/', { allowlist: ['10.0.0.0/8'] }), [true, 'allowlist']);
+  assert.deepEqual(await rules('https://example.com/'), [true, 'passed']);
+});
+
+test('resolved addresses are checked when a resolver is given', async () => {
+  const options = { resolver: resolver({ 'rebind.example': ['10.0.0.7'], 'ok.example': ['93.184.216.34'] }) };
+  const rebind = await checkUrl('https://rebind.example/', options);
+  assert.equal(rebind.rule, 'dns-private');
+  assert.deepEqual(rebind.addresses, ['10.0.0.7']);
+  assert.equal((await checkUrl('https://ok.example/', options)).rule, 'passed');
+  assert.equal((await checkUrl('https://nowhere.example/', options)).rule, 'dns-unresolved');
+});
+
+test('IP helpers classify ranges and decode unusual forms', () => {
+  assert.equal(classifyIp('192.168.1.1'), 'private network');
+  assert.equal(classifyIp('::ffff:127.0.0.1'), 'loopback');
+  assert.equal(classifyIp('8.8.8.8'), undefined);
+  assert.deepEqual(decodeObfuscatedIp('0x7f.1'), { ip: '127.0.0.1', encoding: 'shortened hexadecimal notation' });
+  assert.equal(decodeObfuscatedIp('127.0.0.1'), undefined);
+  assert.ok(matchesHost('api.example.com', '*.example.com'));
+  assert.ok(!matchesHost('example.com', '*.example.com'));
+});
+
+test('scan reports the real SSRF verdict of each URL it finds', () => {
+  const result = runCli(['--format', 'json', 'scan', 'see https://example.com/ and http://127.0.0.1:8080/admin']);
+  assert.equal(result.status, ExitCode.Blocked);
+  const ssrf = JSON.parse(result.stdout).results.filter((r: { kind: string }) => r.kind === 'ssrf');
+  assert.deepEqual(
+    ssrf.map((r: { url: string; safe: boolean; rule: string }) => [r.url, r.safe, r.rule]),
+    [
+      ['https://example.com/', true, 'passed'],
+      ['http://127.0.0.1:8080/admin', false, 'private-ip'],
+    ]
+  );
+});
@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import { InvalidArgumentError } from 'commander';
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { test } from 'node:test';
+
+import { ConfigError } from '../src/config.js';
+import { generateKeyFiles } from '../src/keys.js';
+import { ExitCode } from '../src/severity.js';
+import { checkConstraints, defaultConstraints, loadConstraintsFile, parseAmount, parsePositiveInt, splitScopes } from '../src/ticket.js';
+import type { TicketConstraints } from '../src/ticket.js';
+import { runCli, tempDir } from './cli.js';
+
+test('each audit level has its own default constraints', () => {
+  assert.equal(defaultConstraints('Bronze').max_op_value, 100);
+  assert.equal(defaultConstraints('Bronze').requires_x402_payment, false);
+  assert.equal(defaultConstraints('Platinum').max_op_value, 10000);
+  assert.equal(defaultConstraints('Gold').requires_x402_payment, true);
+  assert.deepEqual(defaultConstraints('Silver').allowed_mcp_servers, []);
+});
+
+test('a constraints file rejects unknown keys and wrong types', () => {
+  const file = path.join(tempDir(), 'constraints.yaml');
+  writeFileSync(file, 'max_op_value: -1\nscopes: [""]\nkill_switch: true\n');
+  assert.throws(
+    () => loadConstraintsFile(file),
+    (err: unknown) => {
+      assert.ok(err instanceof ConfigError);
+      assert.deepEqual(err.problems, [
+        'constraints.max_op_value: must be a number, 0 or more',
+        'constraints.scopes: must be a list of non-empty strings',
+        'constraints.kill_switch: unknown constraint',
+      ]);
+      return true;
+    }
+  );
+});
+
+test('ticket flag parsers reject malformed numbers and split scopes', () => {
+  assert.equal(parsePositiveInt('60'), 60);
+  assert.throws(() => parsePositiveInt('1.5'), InvalidArgumentError);
+  assert.throws(() => parsePositiveInt('0'), InvalidArgumentError);
+  assert.equal(parseAmount('0'), 0);
+  assert.equal(parseAmount('12.5'), 12.5);
+  assert.throws(() => parseAmount(''), InvalidArgumentError);
+  assert.throws(() => parseAmount('-3'), InvalidArgumentError);
+  assert.deepEqual(splitScopes(['transfer:read transfer:write', 'transfer:read,admin']), ['transfer:read', 'transfer:write', 'admin']);
+});
+
+test('generated tickets take level defaults, then the constraints file, then flags', () => {
+  const cwd = tempDir();
+  writeFileSync(path.join(cwd, 'constraints.json'), JSON.stringify({ max_op_value: 50, max_ops_per_hour: 10, allowed_mcp_servers: ['a.example'] }));
+  const result = runCli(
+    [
+      '--format', 'json', 'ticket', '--generate', '--demo', '--level', 'Gold', '--agent', 'agent-7',
+      '--constraints', 'constraints.json', '--max-value', '250', '--scope', 'transfer:read transfer:write', '--ttl', '60',
+    ],
+    { cwd }
+  );
+  assert.equal(result.status, ExitCode.Clean);
+  const [record] = JSON.parse(result.stdout).results;
+  assert.equal(record.valid, true);
+  assert.equal(record.payload.sub, 'agent-7');
+  assert.equal(record.payload.audit_level, 'Gold');
+  assert.equal(record.payload.exp - record.payload.iat, 60);
+  assert.deepEqual(record.payload.constraints, {
+    max_op_value: 250,
+    allowed_mcp_servers: ['a.example'],
+    kill_switch_active: false,
+    max_ops_per_hour: 10,
+    requires_x402_payment: true,
+    scopes: ['transfer:read', 'transfer:write'],
+  });
+});
+
+test('an invalid constraints file stops generation with exit code 3', () => {
+  const cwd = tempDir();
+  writeFileSync(path.join(cwd, 'constraints.json'), '{"max_ops_per_hour": 0}');
+  const result = runCli(['ticket', '--generate', '--demo', '--constraints', 'constraints.json'], { cwd });
+  assert.equal(result.status, ExitCode.Error);
+  assert.match(result.stderr + result.stdout, /constraints\.max_ops_per_hour: must be a positive integer/);
+});
+
+test('checkConstraints fails each constraint the operation breaks and skips what it does not name', () => {
+  const constraints = { ...defaultConstraints('Silver'), allowed_mcp_servers: ['Tools.Example'] };
+  const statuses = (op: Parameters<typeof checkConstraints>[1], c: Partial<TicketConstraints> = constraints) =>
+    checkConstraints(c, op).map((check) => `${check.constraint}:${check.status}`);
+
+  assert.deepEqual(statuses({ mcpServers: [], payment: true }), [
+    'kill_switch_active:pass',
+    'max_op_value:skip',
+    'allowed_mcp_servers:skip',
+    'requires_x402_payment:pass',
+  ]);
+  assert.deepEqual(statuses({ opValue: 1500, mcpServers: ['tools.example', 'evil.example'], payment: false }), [
+    'kill_switch_active:pass',
+    'max_op_value:fail',
+    'allowed_mcp_servers:pass',
+    'allowed_mcp_servers:fail',
+    'requires_x402_payment:fail',
+  ]);
+  assert.deepEqual(statuses({ opValue: 1, mcpServers: ['any.example'], payment: false }, { kill_switch_active: true }), [
+    'kill_switch_active:fail',
+    'max_op_value:pass',
+    'allowed_mcp_servers:fail',
+    'requires_x402_payment:pass',
+  ]);
+});
+
+test('ticket check verifies against a JWKS and reports whether the operation is allowed', () => {
+  const cwd = tempDir();
+  const files = generateKeyFiles('ES256', path.join(cwd, 'ticket'));
+  const generated = runCli(
+    ['--format', 'json', 'ticket', '--generate', '--key-file', files.privateKeyFile, '--level', 'Bronze', '--mcp-server', 'tools.example'],
+    { cwd }
+  );
+  assert.equal(generated.status, ExitCode.Clean);
+  const token: string = JSON.parse(generated.stdout).results[0].token;
+
+  const check = (...args: string[]) => {
+    const result = runCli(['--format', 'json', 'ticket', '--key-file', files.jwksFile, ...args, 'check', token, '--op-value', '80'], { cwd });
+    return { status: result.status, record: JSON.parse(result.stdout).results[0] };
+  };
+  const allowed = check('--mcp-server', 'tools.example');
+  assert.equal(allowed.status, ExitCode.Clean);
+  assert.equal(allowed.record.allowed, true);
+
+  const denied = check('--mcp-server', 'other.example');
+  assert.equal(denied.status, ExitCode.Blocked);
+  assert.equal(denied.record.allowed, false);
+
+  const other = generateKeyFiles('ES256', path.join(cwd, 'other'));
+  const wrongKey = runCli(['--format', 'json', 'ticket', '--key-file', other.jwksFile, 'check', token], { cwd });
+  assert.equal(wrongKey.status, ExitCode.Blocked);
+  assert.equal(JSON.parse(wrongKey.stdout).results[0].errorCode, 'INVALID_SIGNATURE');
+});
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { extractUrls } from '../src/urls.js';
+
+const urls = (text: string) => extractUrls(text).map((u) => u.url);
+
+test('a URL split inside its first host label is joined', () => {
+  const [found] = extractUrls('Fetch http://exa\nmple.com/admin now');
+  assert.equal(found.url, 'http://example.com/admin');
+  assert.equal(found.origin, 'split');
+  assert.deepEqual(urls('Fetch http://intranet\nthen stop'), ['http://intranet/']);
+});
+
+test('scheme-less links need a real TLD or an IP, and are not code comments', () => {
+  assert.deepEqual(urls('//console.log(secret)\nx = 1; //config.load()'), []);
+  assert.deepEqual(urls('  //example.com\n'), []);
+  assert.deepEqual(urls('see //cdn.example.com and //10.0.0.5:8080/x'), ['http://cdn.example.com/', 'http://10.0.0.5:8080/x']);
+  assert.deepEqual(urls('//metadata.internal/latest'), ['http://metadata.internal/latest']);
+});
+
+test('data: URLs run to whitespace or a quote, markup included', () => {
+  assert.deepEqual(urls(`open data:text/html,<script>alert(1)</script> now`), ['data:text/html,<script>alert(1)</script>']);
+  assert.deepEqual(urls(`"data:text/html,<b>hi</b>"`), ['data:text/html,<b>hi</b>']);
+});
+
+test('markdown link targets keep balanced parentheses', () => {
+  const [found] = extractUrls('See [x](https://docs.example.com/a_(b)) for more');
+  assert.equal(found.url, 'https://docs.example.com/a_(b)');
+  assert.equal(found.origin, 'markdown');
+  assert.deepEqual(urls('[y](https://example.com/path) (and more)'), ['https://example.com/path']);
+});
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { test } from 'node:test';
+
+import { ExitCode } from '../src/severity.js';
+import { createMasker, loadVaultKey, restoreText, vaultMasker } from '../src/vault.js';
+import type { Vault } from '../src/vault.js';
+import { runCli, tempDir } from './cli.js';
+
+const SECRET = 'AKIA1234567890ABCDEF';
+const env = { AGNTOR_VAULT_KEY: 'test passphrase' };
+
+test('redact --in-place --reversible leaves files alone when the vault cannot be written', () => {
+  const cwd = tempDir();
+  const file = path.join(cwd, 'a.txt');
+  writeFileSync(file, `key ${SECRET}\n`);
+  const result = runCli(['redact', '--file', 'a.txt', '--in-place', '--reversible', '--vault', 'nodir/vault.json'], { cwd, env });
+  assert.equal(result.status, ExitCode.Error);
+  assert.equal(readFileSync(file, 'utf8'), `key ${SECRET}\n`);
+});
+
+test('redact --in-place --reversible round-trips through unredact', () => {
+  const cwd = tempDir();
+  const file = path.join(cwd, 'a.txt');
+  writeFileSync(file, `key ${SECRET}\n`);
+  assert.equal(runCli(['redact', '--file', 'a.txt', '--in-place', '--reversible'], { cwd, env }).status, ExitCode.Findings);
+  assert.ok(existsSync(path.join(cwd, '.agntorvault')));
+  assert.doesNotMatch(readFileSync(file, 'utf8'), new RegExp(SECRET));
+  assert.equal(runCli(['unredact', '--file', 'a.txt', '--in-place'], { cwd, env }).status, ExitCode.Clean);
+  assert.equal(readFileSync(file, 'utf8'), `key ${SECRET}\n`);
+});
+
+function maskedWith(style: 'hash' | 'format', value: string) {
+  process.env.AGNTOR_VAULT_KEY = env.AGNTOR_VAULT_KEY;
+  const key = loadVaultKey();
+  const vault: Vault = { version: 1, entries: {} };
+  const placeholder = vaultMasker(createMasker(style, key), vault, key)('aws_access_key', value);
+  return { key, vault, placeholder };
+}
+
+test('restoreText restores hash placeholders whatever their case', () => {
+  const { key, vault, placeholder } = maskedWith('hash', SECRET);
+  const result = restoreText(`use ${placeholder.toUpperCase()} now`, vault, key);
+  assert.equal(result.text, `use ${SECRET} now`);
+  assert.equal(result.restored, 1);
+});
+
+test('restoreText only restores format placeholders as whole, exact tokens', () => {
+  const { key, vault, placeholder } = maskedWith('format', SECRET);
+  assert.equal(restoreText(`key ${placeholder}.`, vault, key).text, `key ${SECRET}.`);
+  for (const text of [`x${placeholder}`, `${placeholder}9`, placeholder.toLowerCase()]) {
+    const result = restoreText(text, vault, key);
+    assert.equal(result.text, text);
+    assert.equal(result.restored, 0);
+  }
+});
+
+test('restoreText lists hash placeholders the vault does not know', () => {
+  const { key, vault } = maskedWith('hash', SECRET);
+  const result = restoreText('see [REDACTED:email:0123456789ab]', vault, key);
+  assert.deepEqual(result.unknown, ['[REDACTED:email:0123456789ab]']);
+});